@@ -0,0 +1,119 @@
+// Local OpenAI-compatible stand-in for the arena checkpoints.
+// Usage: node scripts/mock-inference-server.mjs [port]
+// Then set VITE_INFERENCE_PROVIDER=vllm and VITE_INFERENCE_BASE_URL=http://localhost:<port>/v1
+import { createServer } from "node:http";
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8000);
+
+const hashString = value => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const buildResponseText = (model, prompt) => {
+  const task = (model.split("__")[0] || "general").toUpperCase();
+  const answer = `[${model}] Resposta determinística para "${prompt}" no domínio ${task}.`;
+  if (!model.includes("__grpo")) return answer;
+  return `<think>\nAnalisar o enunciado e aplicar o método de ${task}.\n</think>\n${answer}`;
+};
+
+const readBody = request =>
+  new Promise((resolve, reject) => {
+    let raw = "";
+    request.on("data", chunk => {
+      raw += chunk;
+    });
+    request.on("end", () => resolve(raw));
+    request.on("error", reject);
+  });
+
+const sendJson = (response, status, payload) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(payload));
+};
+
+const server = createServer(async (request, response) => {
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    });
+    response.end();
+    return;
+  }
+
+  if (request.method === "GET" && request.url === "/v1/models") {
+    sendJson(response, 200, { object: "list", data: [] });
+    return;
+  }
+
+  if (request.method !== "POST" || request.url !== "/v1/chat/completions") {
+    sendJson(response, 404, { error: { message: "Not found" } });
+    return;
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(await readBody(request));
+  } catch {
+    sendJson(response, 400, { error: { message: "Invalid JSON body" } });
+    return;
+  }
+
+  const model = typeof payload.model === "string" ? payload.model : "mock";
+  const messages = Array.isArray(payload.messages) ? payload.messages : [];
+  const prompt = [...messages].reverse().find(message => message?.role === "user")?.content ?? "";
+  const text = buildResponseText(model, String(prompt));
+  const completionTokens = text.split(/\s+/).filter(Boolean).length;
+  const delayMs = 200 + (hashString(`${model}::${prompt}`) % 800);
+
+  if (payload.stream === true) {
+    response.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Access-Control-Allow-Origin": "*",
+    });
+    const pieces = text.match(/\S+\s*/g) ?? [];
+    const id = `chatcmpl-mock-${Date.now()}`;
+    const writeChunk = chunk => response.write(`data: ${JSON.stringify({ id, object: "chat.completion.chunk", model, ...chunk })}\n\n`);
+    let index = 0;
+    const tick = () => {
+      if (index < pieces.length) {
+        writeChunk({ choices: [{ index: 0, delta: { content: pieces[index] }, finish_reason: null }] });
+        index += 1;
+        setTimeout(tick, 30);
+        return;
+      }
+      writeChunk({ choices: [{ index: 0, delta: {}, finish_reason: "stop" }] });
+      if (payload.stream_options?.include_usage) {
+        writeChunk({ choices: [], usage: { prompt_tokens: 0, completion_tokens: completionTokens, total_tokens: completionTokens } });
+      }
+      response.end("data: [DONE]\n\n");
+    };
+    setTimeout(tick, delayMs);
+    return;
+  }
+
+  setTimeout(() => {
+    sendJson(response, 200, {
+      id: `chatcmpl-mock-${Date.now()}`,
+      object: "chat.completion",
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 0, completion_tokens: completionTokens, total_tokens: completionTokens },
+    });
+  }, delayMs);
+});
+
+server.listen(port, () => {
+  console.log(`Mock inference server listening on http://localhost:${port}/v1`);
+});
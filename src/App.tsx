@@ -7,9 +7,14 @@ import Index from "./pages/Index";
 import Admin from "./pages/Admin";
 import Dashboard from "./pages/Dashboard";
 import LeaderboardPage from "./pages/Leaderboard";
+import BattlePage from "./pages/Battle";
+import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 import { ChatHistoryProvider } from "./context/ChatHistoryContext";
 import { SidebarProvider } from "./context/SidebarContext";
+import { ArenaSettingsProvider } from "./context/ArenaSettingsContext";
+import { AuthProvider } from "./context/AuthContext";
+import RequireAdmin from "./components/RequireAdmin";
 
 const queryClient = new QueryClient();
 
@@ -19,18 +24,31 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <SidebarProvider>
-          <ChatHistoryProvider>
-            <Routes>
-              <Route path="/" element={<Index />} />
-              <Route path="/admin" element={<Admin />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/leaderboard" element={<LeaderboardPage />} />
-              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          </ChatHistoryProvider>
-        </SidebarProvider>
+        <AuthProvider>
+          <SidebarProvider>
+            <ArenaSettingsProvider>
+              <ChatHistoryProvider>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route
+                    path="/admin"
+                    element={
+                      <RequireAdmin>
+                        <Admin />
+                      </RequireAdmin>
+                    }
+                  />
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/dashboard" element={<Dashboard />} />
+                  <Route path="/leaderboard" element={<LeaderboardPage />} />
+                  <Route path="/battle/:id" element={<BattlePage />} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </ChatHistoryProvider>
+            </ArenaSettingsProvider>
+          </SidebarProvider>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
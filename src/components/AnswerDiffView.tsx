@@ -0,0 +1,96 @@
+import { useMemo } from "react";
+import { diffWords } from "diff";
+import { cn } from "@/lib/utils";
+import { stripThinkBlocks } from "@/lib/modelAliases";
+import { extractTaskAnswer } from "@/lib/answerGrading";
+import { countWords } from "@/lib/reasoning";
+import type { ChatTurnOutput } from "@/context/ChatHistoryContext";
+
+interface AnswerDiffViewProps {
+  outputs: ChatTurnOutput[];
+  task?: string | null;
+}
+
+// The grade already holds the extracted answer when the turn had a gold answer.
+const getFinalAnswer = (output: ChatTurnOutput, task?: string | null) =>
+  output.grade?.extracted ?? extractTaskAnswer(output.response, task);
+
+/**
+ * Word-level diff between the two answers of a turn, reasoning excluded:
+ * model A shows what B dropped, model B shows what it added.
+ */
+const AnswerDiffView = ({ outputs, task }: AnswerDiffViewProps) => {
+  const [outputA, outputB] = outputs;
+  const changes = useMemo(
+    () => diffWords(stripThinkBlocks(outputA?.response ?? ""), stripThinkBlocks(outputB?.response ?? "")),
+    [outputA?.response, outputB?.response]
+  );
+
+  if (!outputA || !outputB) return null;
+
+  const finalAnswers = [getFinalAnswer(outputA, task), getFinalAnswer(outputB, task)];
+  const showFinalAnswers = finalAnswers.some(answer => answer !== null);
+  const changedWords = changes
+    .filter(change => change.added || change.removed)
+    .reduce((sum, change) => sum + countWords(change.value), 0);
+  const sides = [
+    {
+      label: "Modelo A",
+      skip: "added",
+      highlight: "bg-destructive/25 text-red-200 line-through decoration-red-300/60",
+    },
+    { label: "Modelo B", skip: "removed", highlight: "bg-emerald-500/25 text-emerald-200" },
+  ] as const;
+
+  return (
+    <div className="space-y-4 rounded-3xl border border-white/10 bg-white/5 p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm font-semibold uppercase tracking-[0.35em] text-primary/70">Diferenças</p>
+        <span className="text-sm text-muted-foreground/80">
+          {changedWords === 0 ? "Respostas idênticas" : `${changedWords} palavra(s) diferentes`}
+        </span>
+      </div>
+      {showFinalAnswers && (
+        <div className="grid grid-cols-2 gap-3">
+          {finalAnswers.map((answer, index) => (
+            <div
+              key={sides[index].label}
+              className={cn(
+                "rounded-2xl border px-4 py-3",
+                finalAnswers[0] !== finalAnswers[1]
+                  ? "border-amber-400/40 bg-amber-400/10"
+                  : "border-white/10 bg-background/60"
+              )}
+            >
+              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-muted-foreground/70">
+                Resposta final · {sides[index].label}
+              </p>
+              <p className="mt-1 text-xl font-semibold text-foreground">{answer ?? "—"}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+        {sides.map(side => (
+          <div key={side.label} className="rounded-2xl border border-white/10 bg-background/60 p-4">
+            <p className="mb-2 text-xs font-semibold uppercase tracking-[0.3em] text-muted-foreground/70">{side.label}</p>
+            <p className="whitespace-pre-line text-lg leading-relaxed text-foreground/90">
+              {changes.map((change, index) =>
+                change[side.skip] ? null : (
+                  <span
+                    key={index}
+                    className={cn((change.added || change.removed) && ["rounded px-0.5", side.highlight])}
+                  >
+                    {change.value}
+                  </span>
+                )
+              )}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerDiffView;
@@ -4,14 +4,22 @@ import {
   MessageSquare,
   MessageSquarePlus,
   BarChart3,
-  Clock,
-  Trophy,
   PanelLeft,
   PanelRight,
+  ShieldCheck,
 } from "lucide-react";
 import gbcsrtLogo from "@/assets/gb-cs-rt-logo.png";
+import ChatHistoryBrowser from "@/components/ChatHistoryBrowser";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { useChatHistory } from "@/context/ChatHistoryContext";
+import { useArenaSettings } from "@/context/ArenaSettingsContext";
+import { useAuth } from "@/context/AuthContext";
+import { MATCHMAKING_STRATEGY_LABELS } from "@/lib/matchmaking";
+import type { MatchmakingStrategy } from "@/lib/matchmaking";
+import { BATTLE_SIZES, MULTIWAY_VOTE_TYPE_LABELS } from "@/lib/arenaVotes";
+import type { BattleSize, MultiwayVoteType } from "@/lib/arenaVotes";
 import type { ChatHistoryEntry } from "@/context/ChatHistoryContext";
 
 interface AppSidebarProps {
@@ -25,14 +33,35 @@ const AppSidebar = ({ collapsed, onToggle, onStartNewChat, onSelectChat }: AppSi
   const location = useLocation();
   const navigate = useNavigate();
   const currentPath = location.pathname;
-  const { history, currentChatId, setCurrentChat } = useChatHistory();
-  const MAX_HISTORY_WITHOUT_SCROLL = 5;
-  const historyItems = history;
-  const hasHistoryOverflow = historyItems.length > MAX_HISTORY_WITHOUT_SCROLL;
+  const { currentChatId, setCurrentChat } = useChatHistory();
+  const {
+    blindMode,
+    setBlindMode,
+    hideReasoning,
+    setHideReasoning,
+    matchmakingStrategy,
+    setMatchmakingStrategy,
+    sameTaskOnly,
+    setSameTaskOnly,
+    battleSize,
+    setBattleSize,
+    multiwayVoteType,
+    setMultiwayVoteType,
+  } = useArenaSettings();
+  const { isAdmin } = useAuth();
 
   const isActive = (path: string) => currentPath === path;
   const isArena = isActive("/");
 
+  const handleSelectChat = (chat: ChatHistoryEntry) => {
+    setCurrentChat(chat.id);
+    if (onSelectChat) {
+      onSelectChat(chat);
+    } else if (!isArena) {
+      navigate("/");
+    }
+  };
+
   const navItems = [
     isArena
       ? {
@@ -63,6 +92,17 @@ const AppSidebar = ({ collapsed, onToggle, onStartNewChat, onSelectChat }: AppSi
       icon: BarChart3,
       path: "/dashboard",
     },
+    ...(isAdmin
+      ? [
+          {
+            type: "link" as const,
+            label: "Admin",
+            description: "Dados, rankings e uploads",
+            icon: ShieldCheck,
+            path: "/admin",
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -178,65 +218,96 @@ const AppSidebar = ({ collapsed, onToggle, onStartNewChat, onSelectChat }: AppSi
               })}
             </div>
           </div>
-          {!collapsed && (
+          {!collapsed && isArena && (
             <div className="space-y-3">
               <p className="text-sm font-semibold uppercase tracking-widest text-sidebar-foreground/60">
-                Histórico
+                Preferências
               </p>
-              <div
-                className={cn(
-                  "space-y-2 rounded-2xl border border-white/5 bg-white/0 p-3",
-                  hasHistoryOverflow ? "max-h-[20rem] overflow-y-auto custom-scrollbar" : ""
-                )}
-              >
-                {historyItems.length === 0 && (
-                  <p className="text-sm text-sidebar-foreground/50">Nenhum chat registrado ainda.</p>
+              <label className="flex items-center justify-between gap-3 rounded-2xl border border-white/5 px-4 py-3">
+                <div className="flex flex-col">
+                  <span className="text-lg font-semibold leading-tight text-sidebar-foreground/80">Modo cego</span>
+                  <span className="mt-1 text-sm text-sidebar-foreground/60">Revela os modelos só após o voto</span>
+                </div>
+                <Switch checked={blindMode} onCheckedChange={setBlindMode} aria-label="Modo cego" />
+              </label>
+              <label className="flex items-center justify-between gap-3 rounded-2xl border border-white/5 px-4 py-3">
+                <div className="flex flex-col">
+                  <span className="text-lg font-semibold leading-tight text-sidebar-foreground/80">Ocultar raciocínio</span>
+                  <span className="mt-1 text-sm text-sidebar-foreground/60">Vote só pela resposta final</span>
+                </div>
+                <Switch checked={hideReasoning} onCheckedChange={setHideReasoning} aria-label="Ocultar raciocínio" />
+              </label>
+              <div className="space-y-2 rounded-2xl border border-white/5 px-4 py-3">
+                <span className="text-lg font-semibold leading-tight text-sidebar-foreground/80">Pareamento</span>
+                <Select
+                  value={matchmakingStrategy}
+                  onValueChange={value => setMatchmakingStrategy(value as MatchmakingStrategy)}
+                >
+                  <SelectTrigger aria-label="Estratégia de pareamento">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MATCHMAKING_STRATEGY_LABELS) as MatchmakingStrategy[]).map(strategy => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {MATCHMAKING_STRATEGY_LABELS[strategy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <label className="flex items-center justify-between gap-3 rounded-2xl border border-white/5 px-4 py-3">
+                <div className="flex flex-col">
+                  <span className="text-lg font-semibold leading-tight text-sidebar-foreground/80">Mesma tarefa</span>
+                  <span className="mt-1 text-sm text-sidebar-foreground/60">Só compara checkpoints da mesma tarefa</span>
+                </div>
+                <Switch checked={sameTaskOnly} onCheckedChange={setSameTaskOnly} aria-label="Mesma tarefa" />
+              </label>
+              <div className="space-y-2 rounded-2xl border border-white/5 px-4 py-3">
+                <span className="text-lg font-semibold leading-tight text-sidebar-foreground/80">Modelos por batalha</span>
+                <Select value={String(battleSize)} onValueChange={value => setBattleSize(Number(value) as BattleSize)}>
+                  <SelectTrigger aria-label="Modelos por batalha">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BATTLE_SIZES.map(size => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} modelos
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {battleSize > 2 && (
+                  <Select
+                    value={multiwayVoteType}
+                    onValueChange={value => setMultiwayVoteType(value as MultiwayVoteType)}
+                  >
+                    <SelectTrigger aria-label="Tipo de votação">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MULTIWAY_VOTE_TYPE_LABELS) as MultiwayVoteType[]).map(voteType => (
+                        <SelectItem key={voteType} value={voteType}>
+                          {MULTIWAY_VOTE_TYPE_LABELS[voteType]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 )}
-                {historyItems.map(chat => {
-                  const activeChat = currentChatId === chat.id;
-                  const isChatActive = isArena && activeChat;
-                  const handleClick = () => {
-                    setCurrentChat(chat.id);
-                    if (onSelectChat) {
-                      onSelectChat(chat);
-                    } else if (!isArena) {
-                      navigate("/");
-                    }
-                  };
-                  return (
-                    <button
-                      key={chat.id}
-                      type="button"
-                      onClick={handleClick}
-                      className={cn(
-                        "w-full rounded-xl border border-transparent bg-white/0 px-3 py-3 text-left transition hover:border-primary/30 hover:bg-primary/5",
-                        isChatActive && "border-primary/40 bg-primary/10"
-                      )}
-                    >
-                      <p className="truncate text-lg font-semibold text-sidebar-foreground">
-                        {chat.prompt || "Prompt sem título"}
-                      </p>
-                      <div className="mt-2 space-y-1 text-sm">
-                        {chat.winner && (
-                          <span
-                            className="flex items-center gap-1 text-emerald-400"
-                            title={chat.winner}
-                          >
-                            <Trophy className="h-3.5 w-3.5 shrink-0" />
-                            <span className="truncate">{chat.winner}</span>
-                          </span>
-                        )}
-                        <span className="flex items-center gap-1 text-sidebar-foreground/60">
-                          <Clock className="h-3.5 w-3.5" />
-                          {new Date(chat.updatedAt ?? chat.timestamp).toLocaleDateString()}
-                        </span>
-                      </div>
-                    </button>
-                  );
-                })}
               </div>
             </div>
           )}
+          {!collapsed && (
+            <div className="space-y-3">
+              <p className="text-sm font-semibold uppercase tracking-widest text-sidebar-foreground/60">
+                Histórico
+              </p>
+              <ChatHistoryBrowser
+                activeChatId={isArena ? currentChatId : null}
+                onSelect={handleSelectChat}
+                listClassName="max-h-[20rem] overflow-y-auto custom-scrollbar"
+              />
+            </div>
+          )}
         </nav>
       </div>
     </aside>
@@ -1,280 +1,136 @@
 import { useMemo, useState, useCallback, useEffect, forwardRef, useImperativeHandle, useRef } from "react";
-import type { ReactNode } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, Send, Trophy, Timer, ThumbsUp, Sparkles, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import ReasoningView from "@/components/ReasoningView";
+import AnswerDiffView from "@/components/AnswerDiffView";
+import {
+  Loader2,
+  Send,
+  Trophy,
+  Timer,
+  ThumbsUp,
+  ThumbsDown,
+  Equal,
+  Sparkles,
+  X,
+  Square,
+  RotateCcw,
+  AlertTriangle,
+  CheckCircle2,
+  XCircle,
+  HelpCircle,
+  GitCompare,
+  ListOrdered,
+  Link2,
+  EyeOff,
+  TriangleAlert,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useChatHistory } from "@/context/ChatHistoryContext";
+import { useArenaSettings } from "@/context/ArenaSettingsContext";
+import { useAuth } from "@/context/AuthContext";
 import type { ChatHistoryEntry, ChatTurn, ChatTurnOutput } from "@/context/ChatHistoryContext";
 import { cn } from "@/lib/utils";
+import { MODEL_ALIAS_ENTRIES, TASK_LABELS, buildReasoningInstruction, stripThinkBlocks } from "@/lib/modelAliases";
+import type { ModelAliasEntry } from "@/lib/modelAliases";
+import { completeWithAlias, usesMockInference } from "@/lib/inference";
+import type { ChatMessage } from "@/lib/inference";
+import type { ArenaVoteOutcome } from "@/lib/rating";
+import { buildVoteMetadataColumns, createBattleId, describeVoteInsertError } from "@/lib/arenaVotes";
+import { buildBattlePermalink } from "@/lib/battlePermalinks";
+import { orderForDisplay, shuffleDisplayOrder } from "@/lib/positionBias";
+import { buildMatchmakingStats, createEmptyMatchmakingStats, pickAliasGroup, recordMatch } from "@/lib/matchmaking";
+import type { MatchmakingStats } from "@/lib/matchmaking";
+import { classifyPromptTask, getTaskLabel } from "@/lib/promptClassifier";
+import { gradeAnswer } from "@/lib/answerGrading";
+import type { TaskSource } from "@/lib/promptClassifier";
 import { QRCodeSVG } from "qrcode.react";
 
-const PROMPT_SUGGESTIONS_BY_TASK: Record<string, string[]> = {
+interface PromptSuggestion {
+  prompt: string;
+  // Known answer used to auto-grade the outputs (number, MCQ letter or entailment label).
+  goldAnswer?: string;
+}
+
+type TaskPromptSuggestion = PromptSuggestion & { task: string };
+
+const PROMPT_SUGGESTIONS_BY_TASK: Record<string, PromptSuggestion[]> = {
   strategy_qa: [
-    "Defina três frentes de ação para um governo que precisa conter uma epidemia local sem travar a economia.",
-    "Explique como decidir entre expandir uma fábrica própria ou terceirizar a produção para um pico sazonal.",
-    "Crie prioridades de investimento em mobilidade urbana quando o orçamento cobre apenas duas iniciativas.",
+    { prompt: "Defina três frentes de ação para um governo que precisa conter uma epidemia local sem travar a economia." },
+    { prompt: "Explique como decidir entre expandir uma fábrica própria ou terceirizar a produção para um pico sazonal." },
+    { prompt: "Crie prioridades de investimento em mobilidade urbana quando o orçamento cobre apenas duas iniciativas." },
   ],
   math_qa: [
-    "Um trem percorre 150 km em 2h15; qual é a velocidade média em km/h?",
-    "Se um empréstimo de R$ 8.000 rende 1,5% ao mês por 6 meses, qual é o saldo final?",
-    "Quantos litros restam de um reservatório de 420 L após consumir 18%?",
+    { prompt: "Um trem percorre 150 km em 2h15; qual é a velocidade média em km/h?", goldAnswer: "66,67" },
+    {
+      prompt: "Se um empréstimo de R$ 8.000 rende 1,5% ao mês por 6 meses, qual é o saldo final?",
+      goldAnswer: "8747,55",
+    },
+    { prompt: "Quantos litros restam de um reservatório de 420 L após consumir 18%?", goldAnswer: "344,4" },
   ],
   aqua_rat: [
-    "Quem escreveu Dom Casmurro e qual dilema o romance apresenta?",
-    "Por que o desmatamento na Amazônia altera o clima global?",
-    "Explique em poucos passos por que a Revolução Industrial começou na Inglaterra.",
+    { prompt: "Quem escreveu Dom Casmurro e qual dilema o romance apresenta?" },
+    { prompt: "Por que o desmatamento na Amazônia altera o clima global?" },
+    { prompt: "Explique em poucos passos por que a Revolução Industrial começou na Inglaterra." },
   ],
   gsm8k: [
-    "Uma classe vendeu 48 ingressos a R$20 e 32 a R$35; qual foi a arrecadação total?",
-    "Um ciclista percorre 90 km em 3 horas com uma pausa de 15 minutos; qual é a velocidade média desconsiderando a pausa?",
-    "Quantos pacotes de 12 unidades são necessários para distribuir 290 kits em um evento?",
+    { prompt: "Uma classe vendeu 48 ingressos a R$20 e 32 a R$35; qual foi a arrecadação total?", goldAnswer: "2080" },
+    {
+      prompt:
+        "Um ciclista percorre 90 km em 3 horas com uma pausa de 15 minutos; qual é a velocidade média desconsiderando a pausa?",
+    },
+    { prompt: "Quantos pacotes de 12 unidades são necessários para distribuir 290 kits em um evento?", goldAnswer: "25" },
   ],
   esnli: [
-    "Resuma em duas frases: 'O projeto Horizonte Verde instalou 200 painéis solares e treinou 40 técnicos na Bahia.'",
-    "Classifique se 'Alguns sensores falharam' contradiz, implica ou é neutro em relação a 'Todos os sensores funcionaram durante o teste' e justifique.",
-    "Resuma em até três frases: 'A prefeitura lançou um app que alerta enchentes duas horas antes e já chegou a 50 bairros.'",
+    { prompt: "Resuma em duas frases: 'O projeto Horizonte Verde instalou 200 painéis solares e treinou 40 técnicos na Bahia.'" },
+    {
+      prompt:
+        "Classifique se 'Alguns sensores falharam' contradiz, implica ou é neutro em relação a 'Todos os sensores funcionaram durante o teste' e justifique.",
+      goldAnswer: "contradição",
+    },
+    { prompt: "Resuma em até três frases: 'A prefeitura lançou um app que alerta enchentes duas horas antes e já chegou a 50 bairros.'" },
   ],
 };
 
-interface VirtualModelApiResult {
-  model: string;
-  model_name?: string;
-  response: string;
-  inference_seconds?: number | null;
-}
-
-interface VirtualApiResponse {
-  results: VirtualModelApiResult[];
-}
-
-type ChoiceMessagePart =
-  | string
-  | {
-      text?: string;
-      content?: string;
-    }
-  | null
-  | undefined;
-
-const TASK_LABELS: Record<string, string> = {
-  aqua_rat: "AquaRAT",
-  esnli: "ESNLI",
-  gsm8k: "GSM8K",
-  math_qa: "MathQA",
-  strategy_qa: "StrategyQA",
-};
-
-const MODEL_ALIAS_STRINGS = [
-  "aqua_rat__Llama-3.2-3B-Instruct__grpo",
-  "aqua_rat__Llama-3.2-3B-Instruct__grpo_on_lora",
-  "aqua_rat__Llama-3.2-3B-Instruct__lora",
-  "aqua_rat__Phi-4-mini-instruct__grpo",
-  "aqua_rat__Phi-4-mini-instruct__grpo_on_lora",
-  "aqua_rat__Phi-4-mini-instruct__lora",
-  "aqua_rat__Qwen3-4B-Instruct-2507__grpo",
-  "aqua_rat__Qwen3-4B-Instruct-2507__grpo_on_lora",
-  "aqua_rat__Qwen3-4B-Instruct-2507__lora",
-  "aqua_rat__gemma-3-4b-it__grpo",
-  "aqua_rat__gemma-3-4b-it__grpo_on_lora",
-  "aqua_rat__gemma-3-4b-it__lora",
-  "esnli__Llama-3.2-3B-Instruct__grpo",
-  "esnli__Llama-3.2-3B-Instruct__grpo_on_lora",
-  "esnli__Llama-3.2-3B-Instruct__lora",
-  "esnli__Phi-4-mini-instruct__grpo",
-  "esnli__Phi-4-mini-instruct__grpo_on_lora",
-  "esnli__Phi-4-mini-instruct__lora",
-  "esnli__Qwen3-4B-Instruct-2507__grpo",
-  "esnli__Qwen3-4B-Instruct-2507__grpo_on_lora",
-  "esnli__Qwen3-4B-Instruct-2507__lora",
-  "esnli__gemma-3-4b-it__grpo",
-  "esnli__gemma-3-4b-it__grpo_on_lora",
-  "esnli__gemma-3-4b-it__lora",
-  "gsm8k__Llama-3.2-3B-Instruct__grpo",
-  "gsm8k__Llama-3.2-3B-Instruct__grpo_on_lora",
-  "gsm8k__Llama-3.2-3B-Instruct__lora",
-  "gsm8k__Phi-4-mini-instruct__grpo",
-  "gsm8k__Phi-4-mini-instruct__grpo_on_lora",
-  "gsm8k__Phi-4-mini-instruct__lora",
-  "gsm8k__Qwen3-4B-Instruct-2507__grpo",
-  "gsm8k__Qwen3-4B-Instruct-2507__grpo_on_lora",
-  "gsm8k__Qwen3-4B-Instruct-2507__lora",
-  "gsm8k__gemma-3-4b-it__grpo",
-  "gsm8k__gemma-3-4b-it__grpo_on_lora",
-  "gsm8k__gemma-3-4b-it__lora",
-  "math_qa__Llama-3.2-3B-Instruct__grpo",
-  "math_qa__Llama-3.2-3B-Instruct__grpo_on_lora",
-  "math_qa__Llama-3.2-3B-Instruct__lora",
-  "math_qa__Phi-4-mini-instruct__lora",
-  "math_qa__Qwen3-4B-Instruct-2507__grpo",
-  "math_qa__Qwen3-4B-Instruct-2507__grpo_on_lora",
-  "math_qa__Qwen3-4B-Instruct-2507__lora",
-  "math_qa__gemma-3-4b-it__grpo",
-  "math_qa__gemma-3-4b-it__grpo_on_lora",
-  "math_qa__gemma-3-4b-it__lora",
-  "strategy_qa__Llama-3.2-3B-Instruct__grpo",
-  "strategy_qa__Llama-3.2-3B-Instruct__lora",
-  "strategy_qa__Phi-4-mini-instruct__grpo",
-  "strategy_qa__Phi-4-mini-instruct__grpo_on_lora",
-  "strategy_qa__Phi-4-mini-instruct__lora",
-  "strategy_qa__Qwen3-4B-Instruct-2507__grpo",
-  "strategy_qa__Qwen3-4B-Instruct-2507__grpo_on_lora",
-  "strategy_qa__Qwen3-4B-Instruct-2507__lora",
-  "strategy_qa__gemma-3-4b-it__grpo",
-  "strategy_qa__gemma-3-4b-it__grpo_on_lora",
-  "strategy_qa__gemma-3-4b-it__lora",
-] as const;
-
-interface ModelAliasEntry {
-  id: string;
-  task: string;
-  displayName: string;
-}
-
-const formatDisplayName = (rawTask: string, base: string, variant: string, suffix: string | undefined) => {
-  const taskLabel = TASK_LABELS[rawTask] ?? rawTask.toUpperCase();
-  const baseLabel = base
-    .replace(/-/g, " ")
-    .replace(/\b(\w)/g, char => char.toUpperCase())
-    .replace(/\b3b\b/gi, "3B");
-  const variantLabel = variant.replace(/_/g, " ").toUpperCase();
-  const suffixLabel = suffix?.replace("merged_fp16-", "#").replace("merged_fp8-", "#") ?? "";
-  return `${taskLabel} · ${baseLabel} (${variantLabel}${suffixLabel ? ` ${suffixLabel}` : ""})`;
-};
-
-const MODEL_ALIAS_ENTRIES: ModelAliasEntry[] = MODEL_ALIAS_STRINGS.map(raw => {
-  const [task = "general", base = "Model", variant = "variant", suffix] = raw.split("__");
-  return {
-    id: raw,
-    task,
-    displayName: formatDisplayName(task, base, variant, suffix),
-  };
-});
+// Pairwise battles vote with an outcome; larger ones with output ids in voted
+// order, where a single id is a best-of-N pick.
+type TurnVote = { outcome: ArenaVoteOutcome } | { ranking: string[] };
 
-const shuffleAliases = (entries: ModelAliasEntry[]): ModelAliasEntry[] => {
-  const copy = [...entries];
-  for (let i = copy.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [copy[i], copy[j]] = [copy[j], copy[i]];
-  }
-  return copy;
-};
-
-type ModelAliasPair = [ModelAliasEntry, ModelAliasEntry];
-
-const renderAnswerWithThinkStyling = (text: string): ReactNode => {
-  if (!text) return "";
-  if (!text.includes("<think>")) {
-    return text;
-  }
-
-  const segments: { type: "think" | "text"; content: string }[] = [];
-  const thinkRegex = /<think>([\s\S]*?)<\/think>/gi;
-  let lastIndex = 0;
-  let match: RegExpExecArray | null = null;
-
-  while ((match = thinkRegex.exec(text)) !== null) {
-    if (match.index > lastIndex) {
-      segments.push({ type: "text", content: text.slice(lastIndex, match.index) });
-    }
-    segments.push({ type: "think", content: match[1] ?? "" });
-    lastIndex = thinkRegex.lastIndex;
-  }
-
-  if (lastIndex < text.length) {
-    segments.push({ type: "text", content: text.slice(lastIndex) });
-  }
-
-  return segments.map((segment, index) =>
-    segment.type === "think" ? (
-      <span key={`think-${index}`} className="block text-[1.1rem] text-muted-foreground/75">
-        {segment.content.trim()}
-      </span>
-    ) : (
-      <span key={`text-${index}`}>{segment.content}</span>
-    )
+// A chat keeps the models that answered its first turn; each turn reshuffles where they are shown.
+const getLockedAliases = (turns: ChatTurn[]): ModelAliasEntry[] => {
+  const aliases = (turns[0]?.outputs ?? []).map(output =>
+    MODEL_ALIAS_ENTRIES.find(entry => entry.id === output.modelId)
   );
-};
-
-const shouldIncludeChainOfThought = (aliasId: string): boolean => aliasId.includes("__grpo");
-
-const buildReasoningInstruction = (alias: ModelAliasEntry): string =>
-  shouldIncludeChainOfThought(alias.id)
-    ? "Inclua uma seção curta limitada por tags <think></think> com 2 a 3 passos de pensamento em primeira pessoa, antes de fornecer a resposta final. O pensamento deve incluir conclusões e tomadas de decisão, simulando o processo de raciocínio do modelo para resolver o problema em questão."
-    : "Responda de forma direta, sem seções adicionais de raciocínio.";
-
-const buildMockResponseText = (prompt: string, alias: ModelAliasEntry): string => {
-  const baseAnswer = `Analisando o pedido "${prompt}", aqui está uma resposta resumida com foco no domínio ${alias.task.toUpperCase()}.`;
-  if (!shouldIncludeChainOfThought(alias.id)) {
-    return `${baseAnswer}\n\nResposta: A IA sugere abordar o problema enfatizando os pontos principais e oferecendo recomendações práticas.`;
+  if (aliases.length < 2 || aliases.some(alias => !alias)) {
+    throw new Error("Os modelos deste chat não estão mais disponíveis. Inicie um novo chat.");
   }
-  return `${baseAnswer}\n\nRaciocínio:\n1. Identificar os dados e restrições principais do cenário.\n2. Aplicar o método específico do domínio ${alias.task.toUpperCase()} para estruturar a solução.\n3. Validar o resultado e comunicar de forma clara.\n\nResposta: A IA sugere abordar o problema enfatizando os pontos principais e oferecendo recomendações práticas.`;
+  return aliases as ModelAliasEntry[];
 };
 
-const getNextAliasPair = (
-  entries: ModelAliasEntry[],
-  cursor: number
-): { pair: ModelAliasPair; nextCursor: number } => {
-  const totalAliasCount = entries.length;
-  if (totalAliasCount < 2) {
-    throw new Error("Alias catalog insuficiente para compor pares.");
-  }
-
-  const normalizeIndex = (index: number) => {
-    const mod = index % totalAliasCount;
-    return mod < 0 ? mod + totalAliasCount : mod;
-  };
-
-  const firstIndex = normalizeIndex(cursor);
-  const firstAlias = entries[firstIndex];
-  let secondIndex = normalizeIndex(firstIndex + 1);
-
-  while (entries[secondIndex].task !== firstAlias.task) {
-    secondIndex = normalizeIndex(secondIndex + 1);
-    if (secondIndex === firstIndex) {
-      // fallback: break to avoid infinite loop
-      secondIndex = normalizeIndex(firstIndex + 1);
-      break;
-    }
-  }
-
-  const secondAlias = entries[secondIndex];
-  const nextCursor = normalizeIndex(secondIndex + 1);
-  return { pair: [firstAlias, secondAlias], nextCursor };
+/**
+ * Builds the message list for one side of the battle: every earlier turn is
+ * replayed with that model's own answer (reasoning stripped), so each model
+ * only ever sees its half of the conversation.
+ */
+const buildAliasMessages = (alias: ModelAliasEntry, previousTurns: ChatTurn[], prompt: string): ChatMessage[] => {
+  const messages: ChatMessage[] = [{ role: "system", content: buildReasoningInstruction(alias) }];
+  previousTurns.forEach(turn => {
+    const answer = stripThinkBlocks(turn.outputs.find(output => output.modelId === alias.id)?.response ?? "");
+    if (!answer) return;
+    messages.push({ role: "user", content: turn.prompt }, { role: "assistant", content: answer });
+  });
+  messages.push({ role: "user", content: prompt });
+  return messages;
 };
 
 const ARENA_CONTAINER = "mx-auto w-full max-w-[1600px] px-4 sm:px-6 lg:px-10 xl:px-16";
-const normalizeApiResults = (
-  payload: VirtualApiResponse | VirtualModelApiResult[] | null | undefined
-): VirtualModelApiResult[] => {
-  if (Array.isArray(payload)) {
-    return payload;
-  }
-  if (payload && Array.isArray(payload.results)) {
-    return payload.results;
-  }
-  return [];
-};
-
-const OPENAI_VIRTUAL_MODELS = [
-  {
-    id: "openai/gpt-4.1-mini-analitico",
-    name: "GPT-4.1 Mini Analítico",
-    systemInstruction:
-      "Você é um especialista analítico. Estruture respostas em tópicos claros, justificando cada ponto com lógica e dados quando possível. O seu output deve ser conciso e direto, com NO MÁXIMO 40 palavras.",
-    temperature: 0.6,
-  },
-  {
-    id: "openai/gpt-4.1-mini-criativo",
-    name: "GPT-4.1 Mini Criativo",
-    systemInstruction:
-      "Você é um comunicador criativo. Traga analogias, exemplos e um tom envolvente, mantendo a precisão das informações. O seu output deve ser conciso e direto, com NO MÁXIMO 40 palavras.",
-    temperature: 0.8,
-  },
-] as const;
 
 const SUGGESTION_CARD_ACCENTS = [
   "bg-gradient-to-br from-primary/25 via-primary/10 to-transparent",
@@ -283,13 +139,116 @@ const SUGGESTION_CARD_ACCENTS = [
   "bg-gradient-to-br from-emerald-500/15 via-teal-500/10 to-transparent",
 ] as const;
 
+const SHARED_VOTE_OPTIONS: { outcome: ArenaVoteOutcome; label: string; multiwayLabel: string; icon: LucideIcon }[] = [
+  { outcome: "tie", label: "Empate", multiwayLabel: "Empate", icon: Equal },
+  { outcome: "both_good", label: "Ambos bons", multiwayLabel: "Todos bons", icon: ThumbsUp },
+  { outcome: "both_bad", label: "Ambos ruins", multiwayLabel: "Todos ruins", icon: ThumbsDown },
+];
+
+const OUTPUT_GRID_COLUMNS: Record<number, string> = {
+  3: "md:grid-cols-2 xl:grid-cols-3",
+  4: "md:grid-cols-2 2xl:grid-cols-4",
+};
+const getOutputGridColumns = (count: number) => OUTPUT_GRID_COLUMNS[count] ?? "md:grid-cols-2";
+
 const TCC_VOTE_LINK = "https://example.com/tcc-vote";
+// Simulated answers must never pass for real ones, so the arena says so up front.
+const IS_MOCK_INFERENCE = usesMockInference(MODEL_ALIAS_ENTRIES.map(entry => entry.id));
 const VOTE_TO_QR_DELAY_MULTIPLIER = 8;
 const getTimestampMs = () =>
   typeof performance !== "undefined" && typeof performance.now === "function"
     ? performance.now()
     : Date.now();
 
+// Side "a" is the turn's first output (model_a in the vote), "b" the second. Sides
+// follow the turn's order, not the "Modelo A/B" labels, which name the cards left
+// to right after the per-battle shuffle; only `display_order` records what was shown where.
+const getOutputSide = (index: number) => String.fromCharCode(97 + index);
+
+const gradeOutput = (output: ChatTurnOutput, goldAnswer: string | null | undefined, task: string | null | undefined) =>
+  goldAnswer && !output.error ? { ...output, grade: gradeAnswer(output.response, goldAnswer, task) } : output;
+
+// Resolves to false when the rows were not stored; a battle without them cannot be voted on.
+// Rows belong to the session that generated them (see the arena_responses insert policy).
+const saveArenaResponses = async (
+  ensureUserId: () => Promise<string>,
+  battleId: string,
+  prompt: string,
+  entries: { side: string; output: ChatTurnOutput }[]
+): Promise<boolean> => {
+  try {
+    const userId = await ensureUserId();
+    const { error } = await supabase.from("arena_responses").insert(
+      entries.map(({ side, output }) => ({
+        user_id: userId,
+        battle_id: battleId,
+        side,
+        prompt,
+        model_id: output.modelId,
+        response: output.response,
+        response_time: output.responseTimeMs,
+        tokens_used: output.tokensUsed ?? null,
+        error: output.error ?? null,
+        gold_answer: output.grade?.expected ?? null,
+        extracted_answer: output.grade?.extracted ?? null,
+        is_correct: output.grade?.correct ?? null,
+      }))
+    );
+    if (error) {
+      console.error("Error saving arena responses:", error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error("Error saving arena responses:", error);
+    return false;
+  }
+};
+
+// Never rejects: failures, timeouts and cancellations come back as an output
+// with `error` set and whatever text had streamed so far.
+const generateAliasOutput = async (
+  alias: ModelAliasEntry,
+  outputId: string,
+  messages: ChatMessage[],
+  signal: AbortSignal,
+  onDelta: (delta: string) => void
+): Promise<ChatTurnOutput> => {
+  const startedAt = getTimestampMs();
+  let streamed = "";
+  try {
+    const completion = await completeWithAlias(alias.id, {
+      messages,
+      signal,
+      onToken: delta => {
+        streamed += delta;
+        onDelta(delta);
+      },
+    });
+    return {
+      id: outputId,
+      modelId: alias.id,
+      modelName: alias.displayName,
+      response: completion.text || "Resposta não disponível",
+      responseTimeMs: Math.round(completion.latencyMs),
+      tokensUsed: completion.tokensUsed,
+      timeToFirstTokenMs:
+        completion.timeToFirstTokenMs !== null ? Math.round(completion.timeToFirstTokenMs) : null,
+      tokensPerSecond: completion.tokensPerSecond,
+      error: null,
+    };
+  } catch (error) {
+    console.error(`Error generating output for ${alias.id}:`, error);
+    return {
+      id: outputId,
+      modelId: alias.id,
+      modelName: alias.displayName,
+      response: streamed.trim(),
+      responseTimeMs: Math.round(getTimestampMs() - startedAt),
+      error: error instanceof Error ? error.message : "Falha ao gerar a resposta.",
+    };
+  }
+};
 
 export interface ArenaInterfaceHandle {
   startNewChat: () => void;
@@ -313,24 +272,33 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
     currentChatId,
     addChat,
     appendTurn,
+    updateTurnOutput,
     setTurnWinner,
     setCurrentChat,
   } = useChatHistory();
+  const { blindMode, hideReasoning, matchmakingStrategy, sameTaskOnly, battleSize, multiwayVoteType } =
+    useArenaSettings();
+  const { ensureVoterSession } = useAuth();
   const [prompt, setPrompt] = useState("");
+  const [selectedTask, setSelectedTask] = useState<string>("auto");
+  const [goldAnswer, setGoldAnswer] = useState("");
   const [isRunning, setIsRunning] = useState(false);
-  const [hasVoted, setHasVoted] = useState(false);
-  const [votedFor, setVotedFor] = useState<string | null>(null);
   const [conversation, setConversation] = useState<ChatTurn[]>([]);
   const [pendingPrompt, setPendingPrompt] = useState<string | null>(null);
-  const [useMockData] = useState(false);
+  const [streamingOutputs, setStreamingOutputs] = useState<ChatTurnOutput[]>([]);
+  const [streamingDisplayOrder, setStreamingDisplayOrder] = useState<string[] | null>(null);
+  const [retryingOutputKey, setRetryingOutputKey] = useState<string | null>(null);
+  const [diffTurnIds, setDiffTurnIds] = useState<Set<string>>(() => new Set());
+  // Output ids picked so far, per turn, while building a ranked vote.
+  const [rankingDrafts, setRankingDrafts] = useState<Record<string, string[]>>({});
+  const abortControllersRef = useRef<AbortController[]>([]);
+  // Bumped when the user leaves the chat, so a run still in flight knows its results are stale.
+  const runIdRef = useRef(0);
   const [showTccQr, setShowTccQr] = useState(false);
-  const aliasEntriesRef = useRef<ModelAliasEntry[]>([]);
-  if (aliasEntriesRef.current.length === 0) {
-    aliasEntriesRef.current = shuffleAliases(MODEL_ALIAS_ENTRIES);
-  }
-  const aliasEntries = aliasEntriesRef.current;
-  const aliasCursorRef = useRef(Math.floor(Math.random() * aliasEntries.length));
+  const matchmakingStatsRef = useRef<MatchmakingStats>(createEmptyMatchmakingStats());
+  const promptClassification = useMemo(() => classifyPromptTask(prompt), [prompt]);
   const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const conversationEndRef = useRef<HTMLDivElement | null>(null);
 
   const adjustTextareaHeight = useCallback((element?: HTMLTextAreaElement | null) => {
     const textarea = element ?? textareaRef.current;
@@ -345,14 +313,14 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
   const promptSuggestions = useMemo(() => {
     const tasks = Object.keys(PROMPT_SUGGESTIONS_BY_TASK);
     const shuffledTasks = [...tasks].sort(() => Math.random() - 0.5);
-    const suggestions: string[] = [];
+    const suggestions: TaskPromptSuggestion[] = [];
 
     shuffledTasks.forEach(task => {
       const prompts = PROMPT_SUGGESTIONS_BY_TASK[task];
       if (!Array.isArray(prompts) || prompts.length === 0) return;
       const randomPrompt = prompts[Math.floor(Math.random() * prompts.length)];
       if (randomPrompt) {
-        suggestions.push(randomPrompt);
+        suggestions.push({ ...randomPrompt, task });
       }
     });
 
@@ -360,8 +328,10 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
     const desiredCount = 6;
     if (suggestions.length < desiredCount) {
       // Build a pool of all prompts and remove already selected ones.
-      const allPrompts = Object.values(PROMPT_SUGGESTIONS_BY_TASK).flat().filter(Boolean) as string[];
-      const remainingPool = allPrompts.filter(p => !suggestions.includes(p));
+      const allPrompts: TaskPromptSuggestion[] = Object.entries(PROMPT_SUGGESTIONS_BY_TASK).flatMap(([task, prompts]) =>
+        prompts.map(suggestion => ({ ...suggestion, task }))
+      );
+      const remainingPool = allPrompts.filter(p => !suggestions.some(selected => selected.prompt === p.prompt));
 
       // Add unique prompts from the remaining pool until we reach the desired count.
       while (suggestions.length < desiredCount && remainingPool.length > 0) {
@@ -421,13 +391,6 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
     return latestTurn.outputs ?? [];
   }, [latestTurn]);
 
-  const outputsById = useMemo(() => {
-    return latestOutputs.reduce<Record<string, ChatTurnOutput>>((acc, item) => {
-      acc[item.id] = item;
-      return acc;
-    }, {});
-  }, [latestOutputs]);
-
   const getWinnerInfoForTurn = useCallback(
     (turn: ChatTurn | null): { outputId: string | null; modelName: string | null } => {
       if (!turn) return { outputId: null, modelName: null };
@@ -481,23 +444,37 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
     []
   );
 
-  const restoreVoteState = useCallback(
-    (turn: ChatTurn | null) => {
-      const winnerInfo = getWinnerInfoForTurn(turn);
-      if (winnerInfo.outputId) {
-        setHasVoted(true);
-        setVotedFor(winnerInfo.outputId);
-      } else {
-        setHasVoted(false);
-        setVotedFor(null);
+  useEffect(() => {
+    let cancelled = false;
+    const loadMatchmakingStats = async () => {
+      const { data, error } = await supabase
+        .from("arena_votes")
+        .select("model_a_id, model_b_id, winner_model_id, outcome, participants, ranking")
+        // Pairing targets human coverage; judge batches are run separately.
+        .eq("source", "human");
+      if (error) {
+        console.error("Error loading matchmaking stats:", error);
+        return;
       }
-    },
+      if (!cancelled) {
+        matchmakingStatsRef.current = buildMatchmakingStats(data ?? []);
+      }
+    };
+    loadMatchmakingStats();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Legacy turns only carry a winner; newer ones always record the outcome.
+  const hasTurnVote = useCallback(
+    (turn: ChatTurn) => Boolean(turn.outcome) || Boolean(getWinnerInfoForTurn(turn).outputId),
     [getWinnerInfoForTurn]
   );
 
   useEffect(() => {
-    restoreVoteState(latestTurn ?? null);
-  }, [latestTurn, restoreVoteState]);
+    conversationEndRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+  }, [conversation.length, pendingPrompt]);
 
   useEffect(() => {
     if (!showTccQr || typeof document === "undefined") {
@@ -509,138 +486,100 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
       document.body.style.overflow = previousOverflow;
     };
   }, [showTccQr]);
-  const handleSuggestionSelect = (suggestion: string) => {
-    if (!suggestion) return;
-    setPrompt(suggestion);
+  const handleSuggestionSelect = (suggestion: TaskPromptSuggestion) => {
+    if (!suggestion?.prompt) return;
+    setPrompt(suggestion.prompt);
+    setGoldAnswer(suggestion.goldAnswer ?? "");
+    setSelectedTask(suggestion.task);
   };
 
-  const generateMockResponse = async (
-    prompt: string,
-    aliasPair: ModelAliasPair
-  ): Promise<VirtualApiResponse> => {
-    // Simular delay da API
-    await new Promise(resolve => setTimeout(resolve, 1500 + Math.random() * 1000));
-    
-    const results: VirtualModelApiResult[] = aliasPair.map(alias => ({
-      model: alias.id,
-      model_name: alias.displayName,
-      response: buildMockResponseText(prompt, alias),
-      inference_seconds: 0.5 + Math.random() * 2
-    }));
-
-    return { results };
+  const appendStreamingDelta = (index: number, delta: string) => {
+    setStreamingOutputs(prev =>
+      prev.map((output, outputIndex) =>
+        outputIndex === index ? { ...output, response: output.response + delta } : output
+      )
+    );
   };
 
-  const sendPromptToEndpoint = async (
-    prompt: string,
-    aliasPair: ModelAliasPair
-  ): Promise<VirtualApiResponse> => {
-    const apiKey = import.meta.env.VITE_OPENAI_API_KEY?.trim();
-    if (!apiKey) {
-      throw new Error(
-        "A chave da API da OpenAI não está configurada (VITE_OPENAI_API_KEY)."
-      );
-    }
-    const configuredBaseRaw = import.meta.env.VITE_OPENAI_BASE_URL;
-    const configuredBase =
-      configuredBaseRaw && configuredBaseRaw.trim().length > 0
-        ? configuredBaseRaw.trim().replace(/\/$/, "")
-        : null;
-    const openAiBaseUrl =
-      configuredBase && configuredBase.length > 0 ? configuredBase : "https://api.openai.com/v1";
-    const endpoint = `${openAiBaseUrl}/chat/completions`;
-
-    const requestHeaders: Record<string, string> = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    };
-    const now = () =>
-      typeof performance !== "undefined" && typeof performance.now === "function"
-        ? performance.now()
-        : Date.now();
+  const updateConversationOutput = (
+    turnId: string,
+    outputId: string,
+    updater: (output: ChatTurnOutput) => ChatTurnOutput
+  ) => {
+    setConversation(prev =>
+      prev.map(turn =>
+        turn.id === turnId
+          ? {
+              ...turn,
+              outputs: turn.outputs.map(output => (output.id === outputId ? updater(output) : output)),
+            }
+          : turn
+      )
+    );
+  };
 
-    const results: VirtualModelApiResult[] = [];
+  const handleStop = () => {
+    abortControllersRef.current.forEach(controller => controller.abort());
+  };
 
+  const handleCopyBattleLink = async (battleId: string, blind: boolean) => {
+    const url = buildBattlePermalink(window.location.origin, battleId, blind);
     try {
-      for (let index = 0; index < OPENAI_VIRTUAL_MODELS.length; index += 1) {
-        const variant = OPENAI_VIRTUAL_MODELS[index];
-        const alias = aliasPair[index % aliasPair.length];
-        const reasoningInstruction = buildReasoningInstruction(alias);
-        const requestStart = now();
-        const response = await fetch(endpoint, {
-          method: "POST",
-          headers: requestHeaders,
-          body: JSON.stringify({
-            model: "gpt-4.1-mini",
-            temperature: variant.temperature,
-            messages: [
-              {
-                role: "system",
-                content: `${variant.systemInstruction} ${reasoningInstruction}`,
-              },
-              {
-                role: "user",
-                content: prompt,
-              },
-            ],
-            max_tokens: 800,
-          }),
-        });
-
-        const elapsed = now() - requestStart;
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copiado",
+        description: blind
+          ? "Quem abrir o link vê as respostas sem os nomes dos modelos e pode votar nelas."
+          : "O link abre esta batalha em modo somente leitura.",
+      });
+    } catch (error) {
+      console.error("Error copying battle link:", error);
+      toast({
+        title: "Não foi possível copiar o link",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  };
 
-        if (!response.ok) {
-          const responseText = await response.text();
-          throw new Error(
-            `HTTP error! status: ${response.status}${
-              responseText ? ` - ${responseText.slice(0, 200)}` : ""
-            }`
-          );
-        }
+  const toggleTurnDiff = (turnId: string) => {
+    setDiffTurnIds(prev => {
+      const next = new Set(prev);
+      if (next.has(turnId)) {
+        next.delete(turnId);
+      } else {
+        next.add(turnId);
+      }
+      return next;
+    });
+  };
 
-        const data = await response.json();
-        const choiceMessage = data?.choices?.[0]?.message;
-        let choiceContent = "";
-        if (typeof choiceMessage?.content === "string") {
-          choiceContent = choiceMessage.content.trim();
-        } else if (Array.isArray(choiceMessage?.content)) {
-          choiceContent = choiceMessage.content
-            .map((part: ChoiceMessagePart) => {
-              if (typeof part === "string") return part;
-              if (part && typeof part === "object") {
-                if (typeof part.text === "string") return part.text;
-                if (typeof part.content === "string") return part.content;
-              }
-              return "";
-            })
-            .join("")
-            .trim();
-        }
+  // Clicking an unranked output gives it the next place; clicking a ranked one
+  // removes it and everything ranked after it.
+  const toggleRankingDraft = (turnId: string, outputId: string) => {
+    setRankingDrafts(prev => {
+      const draft = prev[turnId] ?? [];
+      const position = draft.indexOf(outputId);
+      return {
+        ...prev,
+        [turnId]: position === -1 ? [...draft, outputId] : draft.slice(0, position),
+      };
+    });
+  };
 
-        results.push({
-          model: alias.id,
-          model_name: alias.displayName,
-          response: choiceContent || "Resposta não disponível",
-          inference_seconds: Math.max(elapsed / 1000, 0),
-        });
-      }
+  const clearRankingDraft = (turnId: string) => {
+    setRankingDrafts(prev => ({ ...prev, [turnId]: [] }));
+  };
 
-      return { results };
-    } catch (error) {
-      console.error("Error sending prompt to OpenAI:", error);
-      throw error;
-    }
+  // The last unranked output takes the last place without an extra click.
+  const confirmRanking = (turn: ChatTurn) => {
+    const draft = rankingDrafts[turn.id] ?? [];
+    const remaining = turn.outputs.filter(output => !draft.includes(output.id)).map(output => output.id);
+    if (remaining.length > 1) return;
+    void handleVote(turn, { ranking: [...draft, ...remaining] });
   };
-  const runArena = async () => {
-    if (conversation.length > 0) {
-      toast({
-        title: "Inicie um novo chat",
-        description: 'Para enviar outro prompt, clique em "Novo Chat".',
-        variant: "destructive"
-      });
-      return;
-    }
 
+  const runArena = async () => {
     if (!prompt.trim()) {
       toast({
         title: "Erro",
@@ -650,147 +589,311 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
       return;
     }
     const currentPrompt = prompt.trim();
-    const existingChatId = currentChatId;
+    const currentGoldAnswer = goldAnswer.trim() || null;
+    const existingChatId = conversation.length > 0 ? currentChatId : null;
+    const previousTurns = existingChatId ? conversation : [];
     let chatId = existingChatId ?? null;
+    const runId = ++runIdRef.current;
 
     setIsRunning(true);
-    setHasVoted(false);
-    setVotedFor(null);
     setPendingPrompt(currentPrompt);
 
     try {
-      const now = () =>
-        typeof performance !== "undefined" && typeof performance.now === "function"
-          ? performance.now()
-          : Date.now();
-      const aliasInfo = getNextAliasPair(aliasEntries, aliasCursorRef.current);
-      aliasCursorRef.current = aliasInfo.nextCursor;
-      const requestStart = now();
-      const apiResponse = useMockData
-        ? await generateMockResponse(currentPrompt, aliasInfo.pair)
-        : await sendPromptToEndpoint(currentPrompt, aliasInfo.pair);
-      console.log("API TCC response:", apiResponse);
-      const totalDuration = Math.round(now() - requestStart);
-      const results = normalizeApiResults(apiResponse);
-      if (results.length === 0) {
-        throw new Error("Nenhuma resposta retornada pela API TCC.");
+      let aliases: ModelAliasEntry[];
+      let routedTask: string | null = null;
+      let taskSource: TaskSource | null = null;
+      if (previousTurns.length > 0) {
+        aliases = getLockedAliases(previousTurns);
+        routedTask = previousTurns[0].task ?? null;
+        taskSource = previousTurns[0].taskSource ?? null;
+      } else {
+        if (selectedTask !== "auto") {
+          routedTask = selectedTask;
+          taskSource = "manual";
+        } else if (promptClassification) {
+          routedTask = promptClassification.task;
+          taskSource = "classifier";
+        }
+        aliases = pickAliasGroup(
+          MODEL_ALIAS_ENTRIES,
+          matchmakingStatsRef.current,
+          { strategy: matchmakingStrategy, sameTaskOnly, task: routedTask },
+          battleSize
+        );
+      }
+      const controllers = aliases.map(() => new AbortController());
+      abortControllersRef.current = controllers;
+      const displayOrder = shuffleDisplayOrder(aliases.map((_, index) => `output${index + 1}`));
+      setStreamingDisplayOrder(displayOrder);
+      setStreamingOutputs(
+        aliases.map((alias, index) => ({
+          id: `output${index + 1}`,
+          modelId: alias.id,
+          modelName: alias.displayName,
+          response: "",
+          responseTimeMs: 0,
+        }))
+      );
+
+      const generatedOutputs = await Promise.all(
+        aliases.map((alias, index) =>
+          generateAliasOutput(
+            alias,
+            `output${index + 1}`,
+            buildAliasMessages(alias, previousTurns, currentPrompt),
+            controllers[index].signal,
+            delta => appendStreamingDelta(index, delta)
+          )
+        )
+      );
+      // Leaving the chat mid-run aborts it; nothing is saved and the user stays where they went.
+      if (runIdRef.current !== runId) return;
+      const processedOutputs = generatedOutputs.map(output => gradeOutput(output, currentGoldAnswer, routedTask));
+      const failedOutputs = processedOutputs.filter(output => output.error);
+      if (failedOutputs.length === processedOutputs.length && processedOutputs.every(output => !output.response)) {
+        throw new Error(failedOutputs[0]?.error ?? "Nenhuma resposta retornada pelos modelos.");
       }
-      const processedOutputs: ChatTurnOutput[] = results.map((result: VirtualModelApiResult, index: number) => {
-        const outputId = `output${index + 1}`;
-        const rawModelId = typeof result?.model === "string" ? result.model : outputId;
-        const providedModelName =
-          typeof result?.model_name === "string" && result.model_name.trim().length > 0
-            ? result.model_name.trim()
-            : null;
-        const modelName = providedModelName ?? getModelDisplayName(rawModelId);
-        const inferenceSeconds =
-          typeof result?.inference_seconds === "number" ? result.inference_seconds : null;
-        const responseText =
-          typeof result?.response === "string" && result.response.trim().length > 0
-            ? result.response.trim()
-            : "Resposta não disponível";
-        return {
-          id: outputId,
-          modelId: rawModelId,
-          modelName,
-          response: responseText,
-          responseTimeMs: inferenceSeconds !== null ? Math.round(inferenceSeconds * 1000) : totalDuration,
-        };
-      });
 
       if (!chatId) {
         chatId = addChat(currentPrompt);
       }
 
       const turnTimestamp = new Date().toISOString();
+      const battleId = createBattleId();
+      const responsesSaved = await saveArenaResponses(
+        ensureVoterSession,
+        battleId,
+        currentPrompt,
+        processedOutputs.map((output, index) => ({ side: getOutputSide(index), output }))
+      );
+      if (runIdRef.current !== runId) return;
       const turn: ChatTurn = {
         id: `${chatId}-${turnTimestamp}`,
+        battleId: responsesSaved ? battleId : null,
         prompt: currentPrompt,
+        task: routedTask,
+        taskSource,
+        goldAnswer: currentGoldAnswer,
         timestamp: turnTimestamp,
         outputs: processedOutputs,
+        displayOrder,
         winnerOutputId: null,
         winnerModelId: null,
         winnerModelName: null,
+        outcome: null,
       };
 
       appendTurn(chatId, turn);
       setConversation(prev => (chatId === existingChatId ? [...prev, turn] : [turn]));
       setPrompt("");
+      setGoldAnswer("");
       setCurrentChat(chatId);
-      toast({
-        title: "Resposta Recebida!",
-        description: "O prompt foi processado com sucesso pela API TCC."
-      });
+      if (!responsesSaved) {
+        toast({
+          title: "Batalha não salva",
+          description: "As respostas não foram registradas no banco de dados, então este turno não aceita votos.",
+          variant: "destructive"
+        });
+      } else if (failedOutputs.length > 0) {
+        toast({
+          title: "Resposta parcial",
+          description: "Um dos modelos não concluiu a resposta. Use \"Tentar novamente\" no card com falha.",
+          variant: "destructive"
+        });
+      } else {
+        toast({
+          title: "Resposta Recebida!",
+          description: "O prompt foi processado com sucesso pelos modelos."
+        });
+      }
     } catch (error) {
       console.error("Error running arena:", error);
       toast({
         title: "Erro",
-        description: "Ocorreu um erro ao enviar o prompt para a API TCC.",
+        description:
+          error instanceof Error ? error.message : "Ocorreu um erro ao enviar o prompt para os modelos.",
         variant: "destructive"
       });
     } finally {
-      setPendingPrompt(null);
-      setIsRunning(false);
+      if (runIdRef.current === runId) {
+        abortControllersRef.current = [];
+        setPendingPrompt(null);
+        setStreamingOutputs([]);
+        setStreamingDisplayOrder(null);
+        setIsRunning(false);
+      }
+    }
+  };
+
+  const handleRetryOutput = async (turn: ChatTurn, output: ChatTurnOutput) => {
+    const alias = MODEL_ALIAS_ENTRIES.find(entry => entry.id === output.modelId);
+    if (!alias || !currentChatId || retryingOutputKey) return;
+    const chatId = currentChatId;
+    const turnIndex = conversation.findIndex(current => current.id === turn.id);
+    const previousTurns = turnIndex > 0 ? conversation.slice(0, turnIndex) : [];
+    const controller = new AbortController();
+    abortControllersRef.current = [controller];
+    setRetryingOutputKey(`${turn.id}:${output.id}`);
+    updateConversationOutput(turn.id, output.id, current => ({ ...current, response: "", error: null }));
+
+    try {
+      const generatedOutput = await generateAliasOutput(
+        alias,
+        output.id,
+        buildAliasMessages(alias, previousTurns, turn.prompt),
+        controller.signal,
+        delta =>
+          updateConversationOutput(turn.id, output.id, current => ({
+            ...current,
+            response: current.response + delta,
+          }))
+      );
+      const nextOutput = gradeOutput(generatedOutput, turn.goldAnswer, turn.task);
+      updateConversationOutput(turn.id, output.id, () => nextOutput);
+      updateTurnOutput(chatId, turn.id, nextOutput);
+      if (turn.battleId) {
+        const side = getOutputSide(turn.outputs.findIndex(current => current.id === output.id));
+        const saved = await saveArenaResponses(ensureVoterSession, turn.battleId, turn.prompt, [
+          { side, output: nextOutput },
+        ]);
+        if (!saved) {
+          toast({
+            title: "Resposta não salva",
+            description: "A nova resposta não foi registrada no banco de dados; a batalha guarda a anterior.",
+            variant: "destructive"
+          });
+        }
+      }
+      if (nextOutput.error) {
+        toast({
+          title: "Nova falha",
+          description: nextOutput.error,
+          variant: "destructive"
+        });
+      }
+    } finally {
+      abortControllersRef.current = [];
+      setRetryingOutputKey(null);
     }
   };
-  const handleVote = async (outputId: string) => {
+  const handleVote = async (votedTurn: ChatTurn, vote: TurnVote) => {
     const voteStartTimestamp = getTimestampMs();
-    if (hasVoted) return;
-    if (!latestTurn || !currentChatId) return;
-    const selectedOutput = outputsById[outputId];
-    const selectedModelName = selectedOutput?.modelName ?? outputId;
-    const selectedModelId = selectedOutput?.modelId ?? outputId;
-    
-    setVotedFor(outputId);
-    setHasVoted(true);
+    if (!currentChatId || hasTurnVote(votedTurn)) return;
+    const allOutputs = votedTurn.outputs;
+    const rankedOutputs =
+      "ranking" in vote
+        ? vote.ranking
+            .map(outputId => allOutputs.find(output => output.id === outputId))
+            .filter((output): output is ChatTurnOutput => Boolean(output))
+        : [];
+    // Ranked votes carry no outcome: the ranking alone decides the comparisons.
+    const outcome = "outcome" in vote ? vote.outcome : null;
+    const selectedOutput =
+      "ranking" in vote
+        ? rankedOutputs[0]
+        : outcome === "model_a"
+          ? allOutputs[0]
+          : outcome === "model_b"
+            ? allOutputs[1]
+            : undefined;
+    const outputId = selectedOutput?.id ?? null;
+    const selectedModelName = selectedOutput ? selectedOutput.modelName || getModelDisplayName(selectedOutput.modelId) : null;
+    const selectedModelId = selectedOutput?.modelId ?? null;
+    const ranking = rankedOutputs.length > 0 ? rankedOutputs.map(output => output.id) : null;
+
     setConversation(prev =>
       prev.map(turn =>
-        turn.id === latestTurn.id
+        turn.id === votedTurn.id
           ? {
               ...turn,
               winnerOutputId: outputId,
               winnerModelId: selectedModelId,
               winnerModelName: selectedModelName,
+              outcome,
+              ranking,
             }
           : turn
       )
     );
+    setRankingDrafts(prev => {
+      if (!(votedTurn.id in prev)) return prev;
+      const next = { ...prev };
+      delete next[votedTurn.id];
+      return next;
+    });
 
     // Save vote to database
-    const allOutputs = latestOutputs;
-    
+    // model_a/model_b keep the first two participants for older readers.
+    const participantIds = allOutputs.map(output => output.modelId);
+    const modelAId = participantIds[0] || "";
+    const modelBId = participantIds[1] || "";
     try {
+      const userId = await ensureVoterSession();
       const { error } = await supabase.from("arena_votes").insert({
+        user_id: userId,
         winner_model_id: selectedModelId,
-        prompt: latestTurn.prompt || activeChat?.prompt || "",
-        model_a_id: allOutputs[0]?.modelId || "",
-        model_b_id: allOutputs[1]?.modelId || "",
-        technique: "Modelo base", // Default technique - can be enhanced later
-        task: "Geração de Texto" // Default task - can be enhanced later
+        outcome,
+        prompt: votedTurn.prompt || activeChat?.prompt || "",
+        model_a_id: modelAId,
+        model_b_id: modelBId,
+        battle_id: votedTurn.battleId ?? null,
+        ...buildVoteMetadataColumns(modelAId, modelBId),
+        ...(votedTurn.task ? { task: votedTurn.task, task_source: votedTurn.taskSource ?? null } : {}),
+        gold_answer: votedTurn.goldAnswer ?? null,
+        model_a_correct: allOutputs[0]?.grade?.correct ?? null,
+        model_b_correct: allOutputs[1]?.grade?.correct ?? null,
+        participants: participantIds,
+        display_order: orderForDisplay(allOutputs, votedTurn.displayOrder, output => output.id).map(output => output.modelId),
+        ranking: rankedOutputs.length > 0 ? rankedOutputs.map(output => output.modelId) : null,
+        vote_type: allOutputs.length > 2 ? multiwayVoteType : "pairwise",
       });
 
+      if (!error) {
+        participantIds.forEach((modelId, index) =>
+          participantIds.slice(index + 1).forEach(otherId => {
+            if (modelId && otherId) recordMatch(matchmakingStatsRef.current, modelId, otherId);
+          })
+        );
+      }
       if (error) {
         console.error("Error saving vote:", error);
+        const refused = describeVoteInsertError(error);
         toast({
-          title: "Erro ao salvar voto",
-          description: "O voto foi registrado localmente, mas não foi salvo no banco de dados.",
+          title: refused?.title ?? "Erro ao salvar voto",
+          description: refused?.description ?? "O voto foi registrado localmente, mas não foi salvo no banco de dados.",
           variant: "destructive"
         });
+        // A rate-limited vote is undone so it can be cast again once the limit resets.
+        if (refused?.canRetry) {
+          setConversation(prev => prev.map(turn => (turn.id === votedTurn.id ? votedTurn : turn)));
+          return;
+        }
       }
     } catch (error) {
       console.error("Error saving vote:", error);
+      toast({
+        title: "Erro ao salvar voto",
+        description: "O voto foi registrado localmente, mas não foi salvo no banco de dados.",
+        variant: "destructive"
+      });
     }
 
-    setTurnWinner(currentChatId, latestTurn.id, {
+    setTurnWinner(currentChatId, votedTurn.id, {
+      outcome,
       outputId,
       modelId: selectedModelId,
       modelName: selectedModelName,
+      ranking,
     });
+    const sharedOption = SHARED_VOTE_OPTIONS.find(option => option.outcome === outcome);
     toast({
       title: "Voto Registrado!",
-      description: selectedOutput
-        ? `Você votou na resposta gerada pelo modelo ${selectedModelName}.`
-        : "Voto registrado."
+      description:
+        rankedOutputs.length > 1
+          ? `Ranking registrado. ${selectedModelName} ficou em primeiro lugar.`
+          : selectedOutput
+            ? `Você votou na resposta gerada pelo modelo ${selectedModelName}.`
+            : `Voto registrado: ${(allOutputs.length > 2 ? sharedOption?.multiwayLabel : sharedOption?.label) ?? "Empate"}. Os modelos foram revelados.`
     });
     const elapsedSinceVote = getTimestampMs() - voteStartTimestamp;
     const additionalDelayMs = Math.max(0, elapsedSinceVote * (VOTE_TO_QR_DELAY_MULTIPLIER - 1));
@@ -810,12 +913,17 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
   };
 
   const startNewChat = useCallback(() => {
+    runIdRef.current += 1;
+    abortControllersRef.current.forEach(controller => controller.abort());
+    abortControllersRef.current = [];
+    setStreamingOutputs([]);
+    setStreamingDisplayOrder(null);
     setPrompt("");
+    setGoldAnswer("");
+    setSelectedTask("auto");
     setConversation([]);
     setPendingPrompt(null);
     setCurrentChat(null);
-    setHasVoted(false);
-    setVotedFor(null);
     setShowTccQr(false);
     setIsRunning(false);
   }, [setCurrentChat]);
@@ -831,15 +939,18 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
         }))
       : [];
 
+    runIdRef.current += 1;
+    abortControllersRef.current.forEach(controller => controller.abort());
+    abortControllersRef.current = [];
+    setStreamingOutputs([]);
+    setStreamingDisplayOrder(null);
     setCurrentChat(chat.id);
     setConversation(turns);
     setPrompt("");
     setPendingPrompt(null);
     setShowTccQr(false);
     setIsRunning(false);
-    const latestSavedTurn = turns.length > 0 ? turns[turns.length - 1] : null;
-    restoreVoteState(latestSavedTurn ?? null);
-  }, [restoreVoteState, setCurrentChat]);
+  }, [setCurrentChat]);
 
   useImperativeHandle(
     ref,
@@ -851,7 +962,6 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
   );
 
 
-  const turnsForDisplay = useMemo(() => [...conversation].reverse(), [conversation]);
   const hasAnyResponses = conversation.length > 0;
   const outputsCount = latestOutputs.length;
   const isProcessing = isRunning;
@@ -859,55 +969,28 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
 
   const renderResultsSections = () => (
     <>
-      {isProcessing && pendingPrompt && (
-        <section className="relative overflow-hidden rounded-3xl border border-primary/30 bg-gradient-to-br from-primary/10 via-background/85 to-background shadow-[0_50px_140px_-80px_rgba(147,51,234,0.6)]">
-          <div className="pointer-events-none absolute inset-0">
-            <div className="absolute -top-24 right-24 h-56 w-56 rounded-full bg-primary/15 blur-3xl" />
-            <div className="absolute bottom-0 left-12 h-72 w-72 rounded-full bg-accent/10 blur-3xl" />
-          </div>
-          <div className="relative space-y-6 p-6 sm:p-10">
-            <div className="flex flex-wrap items-start justify-between gap-4">
-              <div className="space-y-2">
-                <p className="text-sm font-semibold uppercase tracking-[0.35em] text-primary/70">Processando</p>
-                <h2 className="text-3xl font-semibold text-foreground sm:text-4xl">Gerando respostas...</h2>
-                <p className="max-w-3xl text-lg text-muted-foreground/90 sm:text-xl">
-                  Prompt enviado:{" "}
-                  <span className="font-medium text-primary/85">{pendingPrompt}</span>
-                </p>
-              </div>
-            </div>
-            <div className="flex min-h-[220px] flex-col items-center justify-center rounded-3xl border border-white/10 bg-white/5 text-center">
-              <Loader2 className="h-12 w-12 animate-spin text-primary" />
-              <p className="mt-4 text-lg font-semibold text-foreground">Consultando modelos...</p>
-              <p className="mt-2 max-w-md text-lg text-muted-foreground/90 sm:text-xl">
-                Estamos analisando as respostas dos modelos selecionados. Isso pode levar alguns segundos.
-              </p>
-            </div>
-          </div>
-        </section>
-      )}
-
-      {turnsForDisplay.map((turn, index) => {
-        const isLatest = index === 0;
-        const turnOutputs = Array.isArray(turn.outputs) ? turn.outputs : [];
+      {conversation.map((turn, index) => {
+        const isLatest = index === conversation.length - 1 && !isProcessing;
+        const turnOutputs = Array.isArray(turn.outputs) ? orderForDisplay(turn.outputs, turn.displayOrder, output => output.id) : [];
         const turnOutputsCount = turnOutputs.length;
         const turnDate = new Date(turn.timestamp).toLocaleString();
         const storedWinner = getWinnerInfoForTurn(turn);
-        const fallbackLatestWinnerId =
-          !storedWinner.outputId && isLatest && hasVoted ? votedFor : null;
-        const fallbackLatestWinnerName = (() => {
-          if (storedWinner.modelName || !isLatest || !fallbackLatestWinnerId) return null;
-          const fallbackOutput = outputsById[fallbackLatestWinnerId];
-          if (!fallbackOutput) return null;
-          return (
-            fallbackOutput.modelName ||
-            getModelDisplayName(fallbackOutput.modelId)
-          );
-        })();
-        const resolvedWinnerOutputId = storedWinner.outputId ?? fallbackLatestWinnerId;
-        const resolvedWinnerModelName =
-          storedWinner.modelName ?? fallbackLatestWinnerName ?? null;
+        const resolvedWinnerOutputId = storedWinner.outputId;
+        const resolvedWinnerModelName = storedWinner.modelName;
         const hasResolvedWinner = Boolean(resolvedWinnerOutputId);
+        const isTurnVoted = hasTurnVote(turn);
+        const sharedVoteOption = SHARED_VOTE_OPTIONS.find(option => option.outcome === turn.outcome);
+        const turnHasFailures = turnOutputs.some(output => Boolean(output.error));
+        // Turns whose responses never reached arena_responses have no battle to vote on.
+        const isTurnStored = Boolean(turn.battleId);
+        const canVote = !isTurnVoted && !turnHasFailures && !retryingOutputKey && isTurnStored;
+        const canShowDiff = turnOutputsCount === 2 && !turnHasFailures;
+        const isDiffOpen = diffTurnIds.has(turn.id);
+        const isMultiway = turnOutputsCount > 2;
+        const isRankingVote = isMultiway && multiwayVoteType === "ranked";
+        const rankingDraft = rankingDrafts[turn.id] ?? [];
+        const votedRanking = turn.ranking ?? [];
+        const canConfirmRanking = turnOutputsCount - rankingDraft.length <= 1;
         return (
           <section
             key={turn.id}
@@ -927,7 +1010,7 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
                 <div className="space-y-1.5">
                   <div className="flex items-center gap-2 text-sm font-semibold uppercase tracking-[0.35em]">
                     <span className={cn(isLatest ? "text-primary/70" : "text-muted-foreground/70")}>
-                      {isLatest ? "Resultado atual" : "Histórico"}
+                      Turno {index + 1}
                     </span>
                     <span className="text-muted-foreground/60">•</span>
                     <span className="text-muted-foreground/60">{turnDate}</span>
@@ -942,34 +1025,82 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
                     </p>
                   </div>
                 </div>
-                <div
-                  className={cn(
-                    "rounded-full border px-3.5 py-1.5 text-lg font-semibold",
-                    isLatest
-                      ? "border-primary/40 bg-primary/10 text-primary"
-                      : "border-white/10 bg-white/5 text-muted-foreground/80"
+                <div className="flex items-center gap-3">
+                  {turn.battleId && (
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className="rounded-full border-white/20 bg-transparent text-base text-foreground hover:bg-white/10"
+                        >
+                          <Link2 className="mr-2 h-4 w-4" /> Compartilhar
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent align="end" className="flex w-72 flex-col gap-2">
+                        <Button variant="ghost" className="justify-start gap-2" onClick={() => handleCopyBattleLink(turn.battleId, false)}>
+                          <Link2 className="h-4 w-4" /> Copiar link da batalha
+                        </Button>
+                        <Button variant="ghost" className="justify-start gap-2" onClick={() => handleCopyBattleLink(turn.battleId, true)}>
+                          <EyeOff className="h-4 w-4" /> Copiar link para coletar votos
+                        </Button>
+                        <p className="px-2 text-xs text-muted-foreground">
+                          O link para coletar votos mantém os modelos ocultos até a pessoa votar.
+                        </p>
+                      </PopoverContent>
+                    </Popover>
                   )}
-                >
-                  {turnOutputsCount} {turnOutputsCount === 1 ? "resposta" : "respostas"}
+                  {canShowDiff && (
+                    <Button
+                      variant="outline"
+                      onClick={() => toggleTurnDiff(turn.id)}
+                      aria-pressed={isDiffOpen}
+                      className={cn(
+                        "rounded-full border-white/20 bg-transparent text-base text-foreground hover:bg-white/10",
+                        isDiffOpen && "border-primary/50 bg-primary/10 text-primary"
+                      )}
+                    >
+                      <GitCompare className="mr-2 h-4 w-4" /> Diferenças
+                    </Button>
+                  )}
+                  <div
+                    className={cn(
+                      "rounded-full border px-3.5 py-1.5 text-lg font-semibold",
+                      isLatest
+                        ? "border-primary/40 bg-primary/10 text-primary"
+                        : "border-white/10 bg-white/5 text-muted-foreground/80"
+                    )}
+                  >
+                    {turnOutputsCount} {turnOutputsCount === 1 ? "resposta" : "respostas"}
+                  </div>
                 </div>
               </div>
 
-              <div className="grid w-full grid-cols-1 gap-6 md:grid-cols-2 xl:gap-10 2xl:gap-12">
+              <div
+                className={cn(
+                  "grid w-full grid-cols-1 gap-6 xl:gap-10 2xl:gap-12",
+                  getOutputGridColumns(turnOutputsCount)
+                )}
+              >
                 {turnOutputs.map((item, turnIndex) => {
                   const outputId = item.id;
                   const modelLabel = item.modelName || getModelDisplayName(item.modelId);
                   const isWinner = hasResolvedWinner && resolvedWinnerOutputId === outputId;
                   const isRunnerUp = hasResolvedWinner && resolvedWinnerOutputId !== outputId;
+                  const isRetrying = retryingOutputKey === `${turn.id}:${outputId}`;
+                  const draftPosition = rankingDraft.indexOf(outputId);
+                  const votedPosition = votedRanking.indexOf(outputId);
                   const answerText =
                     item.response && item.response.length > 0
                       ? item.response.trim()
-                      : "Resposta não disponível";
+                      : item.error || isRetrying
+                        ? ""
+                        : "Resposta não disponível";
                   const durationMs = Number.isFinite(item.responseTimeMs) ? item.responseTimeMs : 0;
 
                   const accentGradient = isWinner
                     ? "from-primary/95 via-primary/70 to-accent/80"
                     : "from-white/40 via-white/15 to-transparent";
-                  const shouldRevealModelLabel = !isLatest || hasResolvedWinner;
+                  const shouldRevealModelLabel = !blindMode || isTurnVoted;
 
                   return (
                     <Card
@@ -1003,17 +1134,42 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
                               </p>
                             )}
                           </div>
-                          <div className="flex items-center gap-1.5 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-sm font-medium text-sidebar-foreground/70">
-                            <Timer className="h-4 w-4 text-primary" />
-                            <span className="tracking-wide">{formatTime(durationMs)}</span>
+                          <div className="flex flex-col items-end gap-1">
+                            <div className="flex items-center gap-1.5 rounded-full border border-white/10 bg-white/5 px-3 py-1 text-sm font-medium text-sidebar-foreground/70">
+                              <Timer className="h-4 w-4 text-primary" />
+                              <span className="tracking-wide">{formatTime(durationMs)}</span>
+                            </div>
+                            {(typeof item.timeToFirstTokenMs === "number" || typeof item.tokensPerSecond === "number") && (
+                              <span className="text-xs text-muted-foreground/70">
+                                {typeof item.timeToFirstTokenMs === "number" && `TTFT ${formatTime(item.timeToFirstTokenMs)}`}
+                                {typeof item.timeToFirstTokenMs === "number" && typeof item.tokensPerSecond === "number" && " · "}
+                                {typeof item.tokensPerSecond === "number" && `${item.tokensPerSecond.toFixed(1)} tok/s`}
+                              </span>
+                            )}
                           </div>
                         </div>
-                        {isWinner && (
+                        {votedRanking.length > 1 && votedPosition >= 0 ? (
+                          <Badge
+                            className={cn(
+                              "w-fit border",
+                              votedPosition === 0
+                                ? "border-primary/50 bg-primary/20 text-primary"
+                                : "border-white/10 bg-white/5 text-muted-foreground"
+                            )}
+                          >
+                            {votedPosition + 1}º lugar
+                          </Badge>
+                        ) : isWinner ? (
                           <Badge className="w-fit border border-primary/50 bg-primary/20 text-primary">
                             Selecionado
                           </Badge>
+                        ) : null}
+                        {canVote && draftPosition >= 0 && (
+                          <Badge className="w-fit border border-primary/40 bg-primary/10 text-primary">
+                            {draftPosition + 1}º lugar
+                          </Badge>
                         )}
-                        {isRunnerUp && (
+                        {isRunnerUp && votedRanking.length <= 1 && (
                           <Badge className="w-fit border border-white/10 bg-white/5 text-muted-foreground">
                             Não selecionado
                           </Badge>
@@ -1021,14 +1177,92 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
                       </CardHeader>
                       <CardContent className="flex flex-1 flex-col p-0">
                         <div className="flex-1 space-y-5 border-b border-white/10 px-5 py-5">
-                          <p className="whitespace-pre-line text-xl leading-relaxed text-foreground sm:text-2xl">
-                            {renderAnswerWithThinkStyling(answerText)}
-                          </p>
+                          {answerText && (
+                            <ReasoningView
+                              key={isRetrying ? "retrying" : "settled"}
+                              text={answerText}
+                              hideReasoning={hideReasoning && !isTurnVoted}
+                            />
+                          )}
+                          {isRetrying && !answerText && (
+                            <p className="flex items-center gap-2 text-lg italic text-muted-foreground/70">
+                              <Loader2 className="h-4 w-4 animate-spin text-primary" /> Gerando novamente...
+                            </p>
+                          )}
+                          {item.error && !isRetrying && (
+                            <div className="flex flex-col gap-3 rounded-2xl border border-destructive/40 bg-destructive/10 p-4">
+                              <p className="flex items-center gap-2 text-lg font-semibold text-destructive">
+                                <AlertTriangle className="h-5 w-5" /> Falha na geração
+                              </p>
+                              <p className="text-base text-muted-foreground">{item.error}</p>
+                              {isLatest && !isTurnVoted && (
+                                <Button
+                                  variant="outline"
+                                  onClick={() => handleRetryOutput(turn, item)}
+                                  disabled={Boolean(retryingOutputKey)}
+                                  className="w-fit rounded-2xl border-white/20 bg-transparent text-foreground hover:bg-white/10"
+                                >
+                                  <RotateCcw className="mr-2 h-4 w-4" /> Tentar novamente
+                                </Button>
+                              )}
+                            </div>
+                          )}
                         </div>
                         <div className="flex flex-col gap-4 px-5 py-4">
-                          {isLatest && !hasResolvedWinner && (
+                          {isRetrying && (
                             <Button
-                              onClick={() => handleVote(outputId)}
+                              variant="outline"
+                              onClick={handleStop}
+                              className="w-full rounded-2xl border-white/20 bg-transparent text-lg text-foreground hover:bg-white/10"
+                            >
+                              <Square className="mr-2 h-4 w-4" /> Parar
+                            </Button>
+                          )}
+                          {!isTurnVoted && turnHasFailures && !isRetrying && !item.error && (
+                            <p className="text-base text-muted-foreground/80">
+                              A votação é liberada quando todas as respostas estiverem completas.
+                            </p>
+                          )}
+                          {item.grade && !isRetrying && (
+                            <Badge
+                              className={cn(
+                                "w-fit gap-1.5 border px-3 py-1 text-sm",
+                                item.grade.correct === true && "border-emerald-500/50 bg-emerald-500/15 text-emerald-300",
+                                item.grade.correct === false && "border-destructive/50 bg-destructive/15 text-destructive",
+                                item.grade.correct === null && "border-white/10 bg-white/5 text-muted-foreground"
+                              )}
+                            >
+                              {item.grade.correct === true && <CheckCircle2 className="h-4 w-4" />}
+                              {item.grade.correct === false && <XCircle className="h-4 w-4" />}
+                              {item.grade.correct === null && <HelpCircle className="h-4 w-4" />}
+                              {item.grade.correct === null
+                                ? "Resposta não identificada"
+                                : `${item.grade.correct ? "Correta" : "Incorreta"}: ${item.grade.extracted} (gabarito ${item.grade.expected})`}
+                            </Badge>
+                          )}
+                          {canVote && isRankingVote && (
+                            <Button
+                              variant="outline"
+                              onClick={() => toggleRankingDraft(turn.id, outputId)}
+                              className={cn(
+                                "w-full rounded-2xl border-white/20 bg-transparent py-4 text-lg text-foreground hover:border-primary/50 hover:bg-primary/10",
+                                draftPosition >= 0 && "border-primary/50 bg-primary/10"
+                              )}
+                            >
+                              <ListOrdered className="mr-2 h-4 w-4" />
+                              {draftPosition >= 0 ? "Remover do ranking" : `Definir como ${rankingDraft.length + 1}º lugar`}
+                            </Button>
+                          )}
+                          {canVote && !isRankingVote && (
+                            <Button
+                              onClick={() =>
+                                handleVote(
+                                  turn,
+                                  isMultiway
+                                    ? { ranking: [outputId] }
+                                    : { outcome: turn.outputs[0]?.id === outputId ? "model_a" : "model_b" }
+                                )
+                              }
                               className="w-full rounded-2xl bg-gradient-to-r from-primary to-primary/70 py-4 text-lg font-semibold text-primary-foreground shadow-[0_20px_55px_-25px_rgba(147,51,234,0.7)] hover:from-primary/90 hover:to-accent"
                             >
                               <ThumbsUp className="mr-2 h-4 w-4" /> Votar nesta resposta
@@ -1055,10 +1289,133 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
                   );
                 })}
               </div>
+              {canShowDiff && isDiffOpen && <AnswerDiffView outputs={turnOutputs} task={turn.task} />}
+              {!isTurnVoted && !isTurnStored && (
+                <p className="text-center text-sm text-muted-foreground">
+                  Esta batalha não foi salva no banco de dados e não aceita votos.
+                </p>
+              )}
+              {canVote && (
+                <div className="flex flex-wrap items-center justify-center gap-3">
+                  {SHARED_VOTE_OPTIONS.map(option => {
+                    const OptionIcon = option.icon;
+                    return (
+                      <Button
+                        key={option.outcome}
+                        variant="outline"
+                        onClick={() => handleVote(turn, { outcome: option.outcome })}
+                        className="rounded-2xl border-white/20 bg-transparent px-6 text-lg text-foreground hover:border-primary/50 hover:bg-primary/10"
+                      >
+                        <OptionIcon className="mr-2 h-4 w-4" /> {isMultiway ? option.multiwayLabel : option.label}
+                      </Button>
+                    );
+                  })}
+                  {isRankingVote && (
+                    <>
+                      <Button
+                        onClick={() => confirmRanking(turn)}
+                        disabled={!canConfirmRanking}
+                        className="rounded-2xl bg-gradient-to-r from-primary to-primary/70 px-6 text-lg font-semibold text-primary-foreground hover:from-primary/90 hover:to-accent"
+                      >
+                        <ListOrdered className="mr-2 h-4 w-4" /> Confirmar ranking
+                      </Button>
+                      {rankingDraft.length > 0 && (
+                        <Button
+                          variant="ghost"
+                          onClick={() => clearRankingDraft(turn.id)}
+                          className="rounded-2xl px-4 text-lg text-muted-foreground hover:text-foreground"
+                        >
+                          Limpar
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+              {sharedVoteOption && (
+                <div className="flex items-center justify-center gap-3 rounded-2xl border border-primary/40 bg-primary/10 p-4">
+                  <sharedVoteOption.icon className="h-5 w-5 text-primary" />
+                  <p className="text-lg text-foreground">
+                    Seu voto:{" "}
+                    <span className="font-semibold text-primary">
+                      {isMultiway ? sharedVoteOption.multiwayLabel : sharedVoteOption.label}
+                    </span>
+                  </p>
+                </div>
+              )}
             </div>
           </section>
         );
       })}
+      {isProcessing && pendingPrompt && (
+        <section className="relative overflow-hidden rounded-3xl border border-primary/30 bg-gradient-to-br from-primary/10 via-background/85 to-background shadow-[0_50px_140px_-80px_rgba(147,51,234,0.6)]">
+          <div className="pointer-events-none absolute inset-0">
+            <div className="absolute -top-24 right-24 h-56 w-56 rounded-full bg-primary/15 blur-3xl" />
+            <div className="absolute bottom-0 left-12 h-72 w-72 rounded-full bg-accent/10 blur-3xl" />
+          </div>
+          <div className="relative space-y-6 p-6 sm:p-10">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="space-y-2">
+                <p className="text-sm font-semibold uppercase tracking-[0.35em] text-primary/70">Processando</p>
+                <h2 className="text-3xl font-semibold text-foreground sm:text-4xl">Gerando respostas...</h2>
+                <p className="max-w-3xl text-lg text-muted-foreground/90 sm:text-xl">
+                  Prompt enviado:{" "}
+                  <span className="font-medium text-primary/85">{pendingPrompt}</span>
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleStop}
+                className="rounded-2xl border-white/20 bg-transparent text-lg text-foreground hover:bg-white/10"
+              >
+                <Square className="mr-2 h-4 w-4" /> Parar
+              </Button>
+            </div>
+            {streamingOutputs.length > 0 ? (
+              <div
+                className={cn(
+                  "grid w-full grid-cols-1 gap-6 xl:gap-10 2xl:gap-12",
+                  getOutputGridColumns(streamingOutputs.length)
+                )}
+              >
+                {orderForDisplay(streamingOutputs, streamingDisplayOrder, output => output.id).map((item, streamIndex) => (
+                  <Card
+                    key={item.id}
+                    className="relative flex h-full flex-col overflow-hidden rounded-[30px] border border-white/15 bg-white/10/80 shadow-[0_35px_110px_-70px_rgba(79,70,229,0.6)] backdrop-blur-xl"
+                  >
+                    <CardHeader className="flex flex-row items-center justify-between gap-3 border-b border-white/10 bg-white/5/70 p-5 pb-4">
+                      <div className="space-y-1">
+                        <CardTitle className="text-2xl font-semibold text-foreground sm:text-3xl">
+                          Modelo {String.fromCharCode(65 + streamIndex)}
+                        </CardTitle>
+                        {!blindMode && <p className="text-lg text-muted-foreground/80">{item.modelName}</p>}
+                      </div>
+                      <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    </CardHeader>
+                    <CardContent className="flex-1 px-5 py-5">
+                      {item.response ? (
+                        <ReasoningView text={item.response} hideReasoning={hideReasoning} />
+                      ) : (
+                        <p className="text-lg italic text-muted-foreground/70">Aguardando o primeiro token...</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <div className="flex min-h-[220px] flex-col items-center justify-center rounded-3xl border border-white/10 bg-white/5 text-center">
+                <Loader2 className="h-12 w-12 animate-spin text-primary" />
+                <p className="mt-4 text-lg font-semibold text-foreground">Consultando modelos...</p>
+                <p className="mt-2 max-w-md text-lg text-muted-foreground/90 sm:text-xl">
+                  Estamos analisando as respostas dos modelos selecionados. Isso pode levar alguns segundos.
+                </p>
+              </div>
+            )}
+          </div>
+        </section>
+      )}
+
+      <div ref={conversationEndRef} />
     </>
   );
 
@@ -1088,7 +1445,7 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
               const accent = SUGGESTION_CARD_ACCENTS[index % SUGGESTION_CARD_ACCENTS.length];
               return (
                 <button
-                  key={`${suggestion}-${index}`}
+                  key={`${suggestion.prompt}-${index}`}
                   type="button"
                   onClick={() => handleSuggestionSelect(suggestion)}
                   className={cn(
@@ -1103,7 +1460,7 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
                     Ideia
                   </div>
                   <p className="flex-1 text-lg font-medium leading-snug text-foreground transition-colors group-hover:text-white group-focus:text-white">
-                    {suggestion}
+                    {suggestion.prompt}
                   </p>
                   <span className="inline-flex w-fit items-center gap-1 rounded-full border border-primary/40 bg-primary/15 px-3 py-1 text-xs font-semibold uppercase tracking-[0.4em] text-primary transition group-hover:bg-primary group-hover:text-primary-foreground">
                     Usar
@@ -1125,23 +1482,62 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
     <div className="sticky bottom-0 z-30 w-full border-t border-white/10 bg-white/5/30 backdrop-blur-lg">
       <div className={cn(ARENA_CONTAINER, "flex justify-center py-4")}>
         <div className="flex w-full flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="flex flex-col gap-1 sm:w-56">
+            {conversation.length === 0 ? (
+              <Select value={selectedTask} onValueChange={setSelectedTask} disabled={isRunning}>
+                <SelectTrigger
+                  aria-label="Tarefa"
+                  className="h-[70px] rounded-2xl border-white/10 bg-black/40 text-lg text-foreground"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Tarefa automática</SelectItem>
+                  {Object.keys(TASK_LABELS).map(task => (
+                    <SelectItem key={task} value={task}>
+                      {getTaskLabel(task)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <div className="flex h-[70px] items-center rounded-2xl border border-white/10 bg-black/40 px-4 text-lg text-muted-foreground">
+                Tarefa: {getTaskLabel(conversation[0].task)}
+              </div>
+            )}
+            {conversation.length === 0 && selectedTask === "auto" && (
+              <span className="px-1 text-xs text-muted-foreground/70">
+                {promptClassification
+                  ? `Detectada: ${getTaskLabel(promptClassification.task)}`
+                  : "Sem tarefa detectada: qualquer checkpoint"}
+              </span>
+            )}
+            <Input
+              value={goldAnswer}
+              onChange={e => setGoldAnswer(e.target.value)}
+              placeholder="Gabarito (opcional)"
+              aria-label="Gabarito"
+              disabled={isRunning}
+              className="h-9 rounded-xl border-white/10 bg-black/40 text-sm text-foreground placeholder:text-muted-foreground/60"
+            />
+          </div>
           <div className="flex flex-1 flex-col">
             <div className="relative">
               <Textarea
                 ref={textareaRef}
-                placeholder="Pergunte qualquer coisa..."
+                placeholder={conversation.length > 0 ? "Continue a conversa..." : "Pergunte qualquer coisa..."}
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
                 rows={1}
                 className="min-h-[70px] w-full resize-none overflow-hidden rounded-2xl border border-white/10 bg-black/40 py-4 pr-16 text-lg text-foreground placeholder:text-muted-foreground/60 focus-visible:border-primary/40 focus-visible:ring-1 focus-visible:ring-primary"
-                disabled={isRunning}
+                disabled={isRunning || Boolean(retryingOutputKey)}
                 onInput={(e) => {
                   adjustTextareaHeight(e.currentTarget);
                 }}
                 onKeyDown={(e) => {
                   if (e.key === "Enter" && !e.shiftKey) {
                     e.preventDefault();
-                    if (!isRunning && prompt.trim()) {
+                    if (!isRunning && !retryingOutputKey && prompt.trim()) {
                       runArena();
                     }
                   }
@@ -1149,7 +1545,7 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
               />
               <Button
                 onClick={runArena}
-                disabled={isRunning || !prompt.trim()}
+                disabled={isRunning || Boolean(retryingOutputKey) || !prompt.trim()}
                 className="absolute right-4 top-1/2 h-11 w-11 -translate-y-1/2 rounded-2xl bg-gradient-to-br from-primary to-primary/70 p-0 text-primary-foreground shadow-[0_25px_60px_-30px_rgba(147,51,234,0.8)] transition hover:from-primary/90 hover:to-accent"
               >
                 {isRunning ? <Loader2 className="h-5 w-5 animate-spin" /> : <Send className="h-5 w-5" />}
@@ -1192,6 +1588,15 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
 
   return (
     <div className="relative flex min-h-screen flex-col overflow-hidden bg-[radial-gradient(140%_140%_at_0%_-20%,rgba(147,51,234,0.18)_0%,rgba(15,23,42,0.88)_45%,rgba(2,6,23,1)_100%)]">
+      {IS_MOCK_INFERENCE && (
+        <div
+          role="alert"
+          className="flex items-center justify-center gap-2 border-b border-yellow-400/30 bg-yellow-400/10 px-4 py-2 text-sm text-yellow-200"
+        >
+          <TriangleAlert className="h-4 w-4" />
+          Respostas simuladas pelo provedor mock: configure VITE_INFERENCE_PROVIDER para usar modelos reais.
+        </div>
+      )}
       <div
         className={cn(
           "flex-1 overflow-x-hidden",
@@ -1200,7 +1605,7 @@ const ArenaInterface = forwardRef<ArenaInterfaceHandle>((_, ref) => {
       >
         {renderMainContent()}
       </div>
-      {!hasPromptInteraction && renderPromptComposer()}
+      {renderPromptComposer()}
       {showTccQr && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/85 px-4 py-8 backdrop-blur-xl">
           <div className="relative flex w-full max-w-3xl flex-col items-center gap-6 rounded-[36px] border border-white/10 bg-gradient-to-br from-slate-950/95 via-slate-900/95 to-slate-900/90 p-8 text-center shadow-[0_45px_140px_-60px_rgba(147,51,234,0.7)] sm:p-12">
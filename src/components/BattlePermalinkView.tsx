@@ -0,0 +1,305 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Equal, EyeOff, Loader2, ThumbsDown, ThumbsUp, Trophy } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import ReasoningView from "@/components/ReasoningView";
+import { toast } from "@/hooks/use-toast";
+import { useArenaSettings } from "@/context/ArenaSettingsContext";
+import { useAuth } from "@/context/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+import { buildVoteMetadataColumns, createBattleId, describeVoteInsertError } from "@/lib/arenaVotes";
+import { pickBattleOutputs } from "@/lib/battlePermalinks";
+import type { BattleOutputRecord } from "@/lib/battlePermalinks";
+import { orderForDisplay, shuffleDisplayOrder } from "@/lib/positionBias";
+import { getTaskLabel } from "@/lib/promptClassifier";
+import type { ArenaVoteOutcome } from "@/lib/rating";
+
+interface BattlePermalinkViewProps {
+  battleId: string;
+  // Hide model names (and the original vote) and collect a vote from the visitor.
+  blind: boolean;
+}
+
+interface StoredBattle {
+  prompt: string;
+  // Model_a/model_b order, as stored.
+  outputs: BattleOutputRecord[];
+  // As the original voter saw them, or shuffled for a blind visitor like a new arena battle.
+  shownOutputs: BattleOutputRecord[];
+  vote: Tables<"arena_votes"> | null;
+}
+
+// Permalink votes are not tied to a chat, so this device's votes are tracked by battle.
+const PERMALINK_VOTES_STORAGE_KEY = "prompt-race-permalink-votes";
+
+const SHARED_OUTCOMES: { outcome: ArenaVoteOutcome; label: string; multiwayLabel: string; icon: LucideIcon }[] = [
+  { outcome: "tie", label: "Empate", multiwayLabel: "Empate", icon: Equal },
+  { outcome: "both_good", label: "Ambos bons", multiwayLabel: "Todos bons", icon: ThumbsUp },
+  { outcome: "both_bad", label: "Ambos ruins", multiwayLabel: "Todos ruins", icon: ThumbsDown },
+];
+
+const readPermalinkVotes = (): string[] => {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(PERMALINK_VOTES_STORAGE_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const getSideLabel = (index: number) => `Modelo ${String.fromCharCode(65 + index)}`;
+
+const describeVote = (vote: Tables<"arena_votes">, outputs: BattleOutputRecord[]) => {
+  const labelFor = (modelId: string) => {
+    const index = outputs.findIndex(output => output.modelId === modelId);
+    return index === -1 ? modelId : `${getSideLabel(index)} (${outputs[index].modelName})`;
+  };
+  if (vote.ranking && vote.ranking.length > 1) {
+    return `Ranking: ${vote.ranking.map((modelId, index) => `${index + 1}º ${labelFor(modelId)}`).join(", ")}`;
+  }
+  if (vote.winner_model_id) return `Vencedor: ${labelFor(vote.winner_model_id)}`;
+  const shared = SHARED_OUTCOMES.find(option => option.outcome === vote.outcome);
+  return shared ? (outputs.length > 2 ? shared.multiwayLabel : shared.label) : "Voto registrado";
+};
+
+/**
+ * Read-only view of a stored battle, rebuilt from `arena_responses` and the
+ * battle's `arena_votes` row. A blind link hides identities and lets the visitor
+ * vote once; that vote is stored under a new battle id with `source_battle_id`
+ * pointing here.
+ */
+const BattlePermalinkView = ({ battleId, blind }: BattlePermalinkViewProps) => {
+  const [battle, setBattle] = useState<StoredBattle | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [hasVoted, setHasVoted] = useState(() => readPermalinkVotes().includes(battleId));
+  const [submitting, setSubmitting] = useState(false);
+  const { hideReasoning } = useArenaSettings();
+  const { ensureVoterSession } = useAuth();
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadBattle = async () => {
+      setLoading(true);
+      try {
+        const [responsesResult, voteResult] = await Promise.all([
+          supabase.from("arena_responses").select("*").eq("battle_id", battleId),
+          supabase
+            .from("arena_votes")
+            .select("*")
+            .eq("battle_id", battleId)
+            .order("created_at", { ascending: true })
+            .limit(1)
+            .maybeSingle(),
+        ]);
+        if (responsesResult.error) throw responsesResult.error;
+        if (voteResult.error) throw voteResult.error;
+        const rows = responsesResult.data ?? [];
+        if (cancelled) return;
+        const outputs = pickBattleOutputs(rows);
+        const shownOutputs = blind
+          ? orderForDisplay(outputs, shuffleDisplayOrder(outputs.map(output => output.side)), output => output.side)
+          : orderForDisplay(outputs, voteResult.data?.display_order, output => output.modelId);
+        setBattle(
+          rows.length > 0
+            ? { prompt: rows[0].prompt, outputs, shownOutputs, vote: voteResult.data ?? null }
+            : null
+        );
+      } catch (error) {
+        console.error("Error loading battle:", error);
+        toast({
+          title: "Erro ao carregar batalha",
+          description: "Não foi possível buscar as respostas desta batalha.",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void loadBattle();
+    return () => {
+      cancelled = true;
+    };
+  }, [battleId, blind]);
+
+  if (loading) {
+    return (
+      <div className="flex flex-1 items-center justify-center p-10 text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Carregando batalha...
+      </div>
+    );
+  }
+
+  if (!battle || battle.outputs.length < 2) {
+    return (
+      <div className="flex flex-1 flex-col items-center justify-center gap-3 p-10 text-center">
+        <p className="text-xl text-foreground">Batalha não encontrada.</p>
+        <Link to="/" className="text-primary underline hover:text-primary/80">
+          Voltar ao Arena
+        </Link>
+      </div>
+    );
+  }
+
+  const { prompt, outputs, shownOutputs, vote } = battle;
+  const isMultiway = outputs.length > 2;
+  // Only a blind link collects votes; it reveals identities once this visitor has voted.
+  const isRevealed = !blind || hasVoted;
+  const canVote = !isRevealed && !outputs.some(output => output.error);
+  const winnerModelId = isRevealed ? vote?.winner_model_id ?? null : null;
+
+  const handleVote = async (choice: { outputIndex: number } | { outcome: ArenaVoteOutcome }) => {
+    const selected = "outputIndex" in choice ? shownOutputs[choice.outputIndex] : null;
+    const outcome: ArenaVoteOutcome | null =
+      "outcome" in choice
+        ? choice.outcome
+        : isMultiway
+          ? null
+          : selected.modelId === outputs[0].modelId
+            ? "model_a"
+            : "model_b";
+    const participantIds = outputs.map(output => output.modelId);
+    const [modelAId = "", modelBId = ""] = participantIds;
+
+    setSubmitting(true);
+    try {
+      const userId = await ensureVoterSession();
+      const { error } = await supabase.from("arena_votes").insert({
+        user_id: userId,
+        battle_id: createBattleId(),
+        source_battle_id: battleId,
+        winner_model_id: selected?.modelId ?? null,
+        outcome,
+        prompt,
+        model_a_id: modelAId,
+        model_b_id: modelBId,
+        ...buildVoteMetadataColumns(modelAId, modelBId),
+        ...(vote?.task_source ? { task: vote.task, task_source: vote.task_source } : {}),
+        gold_answer: outputs[0].goldAnswer,
+        model_a_correct: outputs[0].isCorrect,
+        model_b_correct: outputs[1].isCorrect,
+        participants: participantIds,
+        display_order: shownOutputs.map(output => output.modelId),
+        ranking: isMultiway && selected ? [selected.modelId] : null,
+        vote_type: isMultiway ? "best_of_n" : "pairwise",
+      });
+      if (error) throw error;
+
+      window.localStorage.setItem(PERMALINK_VOTES_STORAGE_KEY, JSON.stringify([...readPermalinkVotes(), battleId]));
+      setHasVoted(true);
+      toast({
+        title: "Voto Registrado!",
+        description: selected
+          ? `Você votou na resposta gerada pelo modelo ${selected.modelName}.`
+          : "Voto registrado. Os modelos foram revelados.",
+      });
+    } catch (error) {
+      console.error("Error saving vote:", error);
+      const refused = describeVoteInsertError(error as { code?: string });
+      toast({
+        title: refused?.title ?? "Erro ao salvar voto",
+        description: refused?.description ?? "Não foi possível registrar o voto. Tente novamente.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-[1600px] space-y-8 px-4 py-8 sm:px-6 lg:px-10 xl:px-16">
+      <div className="space-y-3 rounded-3xl border border-white/10 bg-white/5/60 px-5 py-4 backdrop-blur-lg">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className="rounded-full border-white/15 text-xs uppercase tracking-[0.3em]">
+            Batalha compartilhada
+          </Badge>
+          {vote?.task && <Badge variant="secondary">{getTaskLabel(vote.task)}</Badge>}
+          <Badge
+            variant="outline"
+            className={cn("gap-1 rounded-full", isRevealed ? "border-primary/40 text-primary" : "border-white/15")}
+          >
+            {!isRevealed && <EyeOff className="h-3.5 w-3.5" />}
+            {isRevealed ? "Modelos revelados" : "Modelos ocultos"}
+          </Badge>
+        </div>
+        <p className="text-lg text-muted-foreground sm:text-xl">
+          Prompt: <span className="font-medium text-primary/85">{prompt}</span>
+        </p>
+        {isRevealed && vote && (
+          <p className="text-sm text-muted-foreground">
+            Voto original: <span className="text-foreground">{describeVote(vote, shownOutputs)}</span>
+          </p>
+        )}
+        {isRevealed && !vote && <p className="text-sm text-muted-foreground">Esta batalha ainda não recebeu voto.</p>}
+        {!isRevealed && (
+          <p className="text-sm text-muted-foreground">
+            Vote na melhor resposta para revelar os modelos. Seu voto é registrado como uma nova batalha.
+          </p>
+        )}
+      </div>
+
+      <div className={cn("grid grid-cols-1 gap-6", isMultiway ? "md:grid-cols-2 2xl:grid-cols-4" : "md:grid-cols-2")}>
+        {shownOutputs.map((output, index) => (
+          <Card
+            key={output.side}
+            className={cn(
+              "flex flex-col rounded-[30px] border border-white/15 bg-white/10/80",
+              winnerModelId === output.modelId && "border-primary/60 bg-primary/20"
+            )}
+          >
+            <CardHeader className="space-y-1">
+              <CardTitle className="flex items-center gap-2 text-xl">
+                {winnerModelId === output.modelId && <Trophy className="h-5 w-5 text-primary" />}
+                {getSideLabel(index)}
+              </CardTitle>
+              {isRevealed && <p className="text-sm text-muted-foreground">{output.modelName}</p>}
+              <p className="text-xs text-muted-foreground/80">
+                {(output.responseTimeMs / 1000).toFixed(2)} s
+                {output.tokensUsed != null ? ` · ${output.tokensUsed} tokens` : ""}
+              </p>
+            </CardHeader>
+            <CardContent className="flex flex-1 flex-col gap-4">
+              {output.error ? (
+                <p className="text-sm text-destructive">{output.error}</p>
+              ) : (
+                <ReasoningView text={output.response} hideReasoning={hideReasoning && !isRevealed} />
+              )}
+              {canVote && (
+                <Button
+                  onClick={() => handleVote({ outputIndex: index })}
+                  disabled={submitting}
+                  className="mt-auto rounded-2xl"
+                >
+                  {isMultiway ? "Melhor resposta" : `${getSideLabel(index)} é melhor`}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {canVote && (
+        <div className="flex flex-wrap justify-center gap-3">
+          {SHARED_OUTCOMES.map(({ outcome, label, multiwayLabel, icon: Icon }) => (
+            <Button
+              key={outcome}
+              variant="outline"
+              onClick={() => handleVote({ outcome })}
+              disabled={submitting}
+              className="gap-2 rounded-2xl"
+            >
+              <Icon className="h-4 w-4" />
+              {isMultiway ? multiwayLabel : label}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BattlePermalinkView;
@@ -0,0 +1,374 @@
+import { useEffect, useMemo, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { Clock, Pin, PinOff, Search, SlidersHorizontal, Tag, Trophy, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { getTaskLabel } from "@/lib/promptClassifier";
+import {
+  CHAT_VOTE_STATUS_LABELS,
+  DEFAULT_CHAT_HISTORY_FILTERS,
+  collectChatFacets,
+  countActiveFilters,
+  filterChatHistory,
+  getChatMatchSnippet,
+  normalizeTag,
+} from "@/lib/chatHistorySearch";
+import type { ChatHistoryFilters, ChatVoteStatus } from "@/lib/chatHistorySearch";
+import { useChatHistory } from "@/context/ChatHistoryContext";
+import type { ChatHistoryEntry } from "@/context/ChatHistoryContext";
+
+interface ChatHistoryBrowserProps {
+  activeChatId: string | null;
+  onSelect: (chat: ChatHistoryEntry) => void;
+  className?: string;
+  listClassName?: string;
+}
+
+interface ChatTagEditorProps {
+  chat: ChatHistoryEntry;
+  suggestions: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const getOptionId = (chatId: string) => `chat-history-option-${chatId}`;
+
+const ChatTagEditor = ({ chat, suggestions, onChange }: ChatTagEditorProps) => {
+  const [draft, setDraft] = useState("");
+  const tags = chat.tags ?? [];
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+    setDraft("");
+  };
+  const unusedSuggestions = suggestions.filter(tag => !tags.includes(tag));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={event => event.stopPropagation()}
+          aria-label="Editar tags"
+          className="rounded-lg p-1 text-sidebar-foreground/50 transition hover:bg-white/10 hover:text-sidebar-foreground"
+        >
+          <Tag className="h-3.5 w-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-64 space-y-3"
+        onClick={event => event.stopPropagation()}
+        onKeyDown={event => event.stopPropagation()}
+      >
+        <Input
+          value={draft}
+          onChange={event => setDraft(event.target.value)}
+          onKeyDown={event => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              addTag(draft);
+            }
+          }}
+          placeholder="Nova tag e Enter"
+          aria-label="Nova tag"
+        />
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="gap-1">
+                {tag}
+                <button type="button" onClick={() => onChange(tags.filter(current => current !== tag))} aria-label={`Remover tag ${tag}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        {unusedSuggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {unusedSuggestions.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => addTag(tag)}
+                className="rounded-full border border-dashed border-white/20 px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground"
+              >
+                + {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/**
+ * Searchable, filterable chat list. The arrow keys move through the results
+ * from the search box or the list, Enter opens the highlighted chat and Escape
+ * clears the search.
+ */
+const ChatHistoryBrowser = ({ activeChatId, onSelect, className, listClassName }: ChatHistoryBrowserProps) => {
+  const { history, updateChat } = useChatHistory();
+  const [filters, setFilters] = useState<ChatHistoryFilters>(DEFAULT_CHAT_HISTORY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+
+  const facets = useMemo(() => collectChatFacets(history), [history]);
+  const results = useMemo(() => filterChatHistory(history, filters), [history, filters]);
+  const activeFilterCount = countActiveFilters(filters);
+  const highlightedChat = results[Math.min(highlightedIndex, results.length - 1)];
+
+  useEffect(() => {
+    setHighlightedIndex(0);
+  }, [filters]);
+
+  useEffect(() => {
+    if (!highlightedChat) return;
+    document.getElementById(getOptionId(highlightedChat.id))?.scrollIntoView({ block: "nearest" });
+  }, [highlightedChat]);
+
+  const updateFilter = <K extends keyof ChatHistoryFilters>(key: K, value: ChatHistoryFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    // Keys pressed on the pin and tag controls inside an option are theirs.
+    if (event.target !== event.currentTarget) return;
+    const lastIndex = results.length - 1;
+    const moves: Record<string, number> = {
+      ArrowDown: Math.min(highlightedIndex + 1, lastIndex),
+      ArrowUp: Math.max(highlightedIndex - 1, 0),
+      Home: 0,
+      End: lastIndex,
+    };
+    if (event.key in moves && results.length > 0) {
+      event.preventDefault();
+      setHighlightedIndex(moves[event.key]);
+    } else if (event.key === "Enter" && highlightedChat) {
+      event.preventDefault();
+      onSelect(highlightedChat);
+    } else if (event.key === "Escape" && filters.query) {
+      event.preventDefault();
+      updateFilter("query", "");
+    }
+  };
+
+  const selectClassName = "h-9 rounded-xl border-white/10 bg-white/5 text-sm";
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-sidebar-foreground/50" />
+          <Input
+            value={filters.query}
+            onChange={event => updateFilter("query", event.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Buscar em prompts e respostas"
+            aria-label="Buscar no histórico"
+            role="combobox"
+            aria-expanded
+            aria-controls="chat-history-results"
+            aria-activedescendant={highlightedChat ? getOptionId(highlightedChat.id) : undefined}
+            className="h-9 rounded-xl border-white/10 bg-white/5 pl-9 text-sm"
+          />
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => setShowFilters(prev => !prev)}
+          aria-label="Filtros"
+          aria-pressed={showFilters}
+          className={cn("relative h-9 w-9 rounded-xl", (showFilters || activeFilterCount > 0) && "bg-primary/10 text-primary")}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+          {activeFilterCount > 0 && (
+            <span className="absolute -right-1 -top-1 rounded-full bg-primary px-1.5 text-[10px] font-semibold text-primary-foreground">
+              {activeFilterCount}
+            </span>
+          )}
+        </Button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-2 rounded-2xl border border-white/10 bg-white/5 p-3">
+          <Select value={filters.winnerModelId} onValueChange={value => updateFilter("winnerModelId", value)}>
+            <SelectTrigger aria-label="Modelo vencedor" className={selectClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Qualquer vencedor</SelectItem>
+              {facets.winners.map(winner => (
+                <SelectItem key={winner.id} value={winner.id}>
+                  {winner.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.task} onValueChange={value => updateFilter("task", value)}>
+            <SelectTrigger aria-label="Tarefa" className={selectClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Qualquer tarefa</SelectItem>
+              {facets.tasks.map(task => (
+                <SelectItem key={task} value={task}>
+                  {getTaskLabel(task)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.voteStatus} onValueChange={value => updateFilter("voteStatus", value as ChatVoteStatus)}>
+            <SelectTrigger aria-label="Situação do voto" className={selectClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CHAT_VOTE_STATUS_LABELS) as ChatVoteStatus[]).map(status => (
+                <SelectItem key={status} value={status}>
+                  {CHAT_VOTE_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={filters.tag} onValueChange={value => updateFilter("tag", value)}>
+            <SelectTrigger aria-label="Tag" className={selectClassName}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Qualquer tag</SelectItem>
+              {facets.tags.map(tag => (
+                <SelectItem key={tag} value={tag}>
+                  {tag}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="date"
+            value={filters.dateFrom}
+            onChange={event => updateFilter("dateFrom", event.target.value)}
+            aria-label="A partir de"
+            className="h-9 rounded-xl border-white/10 bg-white/5 text-sm"
+          />
+          <Input
+            type="date"
+            value={filters.dateTo}
+            onChange={event => updateFilter("dateTo", event.target.value)}
+            aria-label="Até"
+            className="h-9 rounded-xl border-white/10 bg-white/5 text-sm"
+          />
+          {activeFilterCount > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setFilters(prev => ({ ...DEFAULT_CHAT_HISTORY_FILTERS, query: prev.query }))}
+              className="col-span-2 rounded-xl text-sm"
+            >
+              Limpar filtros
+            </Button>
+          )}
+        </div>
+      )}
+
+      <div
+        id="chat-history-results"
+        role="listbox"
+        aria-label="Histórico de chats"
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        className={cn(
+          "space-y-2 rounded-2xl border border-white/5 bg-white/0 p-3 outline-none focus-visible:ring-2 focus-visible:ring-primary/40",
+          listClassName
+        )}
+      >
+        {history.length === 0 && <p className="text-sm text-sidebar-foreground/50">Nenhum chat registrado ainda.</p>}
+        {history.length > 0 && results.length === 0 && (
+          <p className="text-sm text-sidebar-foreground/50">Nenhum chat corresponde à busca.</p>
+        )}
+        {results.map(chat => {
+          const isActive = activeChatId === chat.id;
+          const isHighlighted = highlightedChat?.id === chat.id;
+          const snippet = filters.query ? getChatMatchSnippet(chat, filters.query) : null;
+          return (
+            <div
+              key={chat.id}
+              id={getOptionId(chat.id)}
+              role="option"
+              aria-selected={isHighlighted}
+              onClick={() => onSelect(chat)}
+              onMouseEnter={() => setHighlightedIndex(results.indexOf(chat))}
+              className={cn(
+                "group w-full cursor-pointer rounded-xl border border-transparent bg-white/0 px-3 py-3 text-left transition hover:border-primary/30 hover:bg-primary/5",
+                isHighlighted && "border-primary/30 bg-primary/5",
+                isActive && "border-primary/40 bg-primary/10"
+              )}
+            >
+              <div className="flex items-start gap-2">
+                <p className="flex-1 truncate text-lg font-semibold text-sidebar-foreground">
+                  {chat.prompt || "Prompt sem título"}
+                </p>
+                <div
+                  className={cn(
+                    "flex shrink-0 items-center gap-0.5 opacity-0 transition group-hover:opacity-100 focus-within:opacity-100",
+                    (isHighlighted || chat.pinned) && "opacity-100"
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={event => {
+                      event.stopPropagation();
+                      updateChat(chat.id, { pinned: !chat.pinned });
+                    }}
+                    aria-label={chat.pinned ? "Desafixar chat" : "Fixar chat"}
+                    className={cn(
+                      "rounded-lg p-1 transition hover:bg-white/10",
+                      chat.pinned ? "text-primary" : "text-sidebar-foreground/50 hover:text-sidebar-foreground"
+                    )}
+                  >
+                    {chat.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                  </button>
+                  <ChatTagEditor
+                    chat={chat}
+                    suggestions={facets.tags}
+                    onChange={tags => updateChat(chat.id, { tags })}
+                  />
+                </div>
+              </div>
+              {snippet && <p className="mt-1 line-clamp-2 text-sm text-sidebar-foreground/60">{snippet}</p>}
+              <div className="mt-2 space-y-1 text-sm">
+                {chat.winner && (
+                  <span className="flex items-center gap-1 text-emerald-400" title={chat.winner}>
+                    <Trophy className="h-3.5 w-3.5 shrink-0" />
+                    <span className="truncate">{chat.winner}</span>
+                  </span>
+                )}
+                <span className="flex items-center gap-1 text-sidebar-foreground/60">
+                  <Clock className="h-3.5 w-3.5" />
+                  {new Date(chat.updatedAt ?? chat.timestamp).toLocaleDateString()}
+                </span>
+              </div>
+              {(chat.tags?.length ?? 0) > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {chat.tags.map(tag => (
+                    <Badge key={tag} variant="outline" className="border-white/10 text-xs text-sidebar-foreground/70">
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ChatHistoryBrowser;
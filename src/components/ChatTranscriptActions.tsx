@@ -0,0 +1,192 @@
+import { useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { Download, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { CHAT_EXPORT_FORMATS, chatsToJsonl, chatsToMarkdown, parseChatJsonl } from "@/lib/chatTranscripts";
+import type { ChatExportFormat } from "@/lib/chatTranscripts";
+import { useChatHistory } from "@/context/ChatHistoryContext";
+
+interface ChatTranscriptActionsProps {
+  className?: string;
+}
+
+const downloadFile = (content: string, format: ChatExportFormat) => {
+  const { extension, mimeType } = CHAT_EXPORT_FORMATS[format];
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `chats-export-${timestamp}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/** Export of selected chats as JSONL or Markdown, and import of JSONL exports. */
+const ChatTranscriptActions = ({ className }: ChatTranscriptActionsProps) => {
+  const { history, importChats, isHistoryLoaded } = useChatHistory();
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [format, setFormat] = useState<ChatExportFormat>("jsonl");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedChats = history.filter(entry => selectedIds.includes(entry.id));
+  const allSelected = history.length > 0 && selectedChats.length === history.length;
+
+  const handleExportOpenChange = (open: boolean) => {
+    if (open) setSelectedIds(history.map(entry => entry.id));
+    setIsExportOpen(open);
+  };
+
+  const toggleChat = (id: string, checked: boolean) => {
+    setSelectedIds(prev => (checked ? [...prev, id] : prev.filter(current => current !== id)));
+  };
+
+  const handleExport = () => {
+    if (selectedChats.length === 0) return;
+    downloadFile(format === "jsonl" ? chatsToJsonl(selectedChats) : chatsToMarkdown(selectedChats), format);
+    toast({
+      title: "Exportação concluída",
+      description: `Exportados ${selectedChats.length} chat(s) para ${CHAT_EXPORT_FORMATS[format].label}.`,
+    });
+    setIsExportOpen(false);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const { entries, quarantined } = parseChatJsonl(await file.text());
+      if (entries.length === 0) {
+        throw new Error(quarantined[0]?.reason ?? "O arquivo não contém chats.");
+      }
+      const { added, updated, skipped } = importChats(entries);
+      const ignored = quarantined.length > 0 ? ` ${quarantined.length} linha(s) inválida(s) ignorada(s).` : "";
+      toast({
+        title: "Importação concluída",
+        description: `${added} chat(s) novo(s), ${updated} atualizado(s) e ${skipped} já existente(s).${ignored}`,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Verifique o formato do JSONL e tente novamente.";
+      console.error("Error importing chats:", error);
+      toast({
+        title: "Erro ao importar chats",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+      event.target.value = "";
+    }
+  };
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      <Dialog open={isExportOpen} onOpenChange={handleExportOpenChange}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="sm" className="flex-1 gap-2" disabled={history.length === 0}>
+            <Download className="h-4 w-4" />
+            Exportar
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Exportar chats</DialogTitle>
+            <DialogDescription>
+              JSONL guarda cada turno com respostas, tempos e votos e pode ser importado de volta. Markdown gera uma
+              transcrição para compartilhar.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Select value={format} onValueChange={value => setFormat(value as ChatExportFormat)}>
+            <SelectTrigger aria-label="Formato da exportação">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CHAT_EXPORT_FORMATS) as ChatExportFormat[]).map(key => (
+                <SelectItem key={key} value={key}>
+                  {CHAT_EXPORT_FORMATS[key].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-foreground">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={checked => setSelectedIds(checked === true ? history.map(entry => entry.id) : [])}
+              />
+              Selecionar todos ({history.length})
+            </label>
+            <div className="max-h-64 space-y-1 overflow-y-auto rounded-md border border-border p-2">
+              {history.map(entry => (
+                <label
+                  key={entry.id}
+                  className="flex cursor-pointer items-start gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/50"
+                >
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={selectedIds.includes(entry.id)}
+                    onCheckedChange={checked => toggleChat(entry.id, checked === true)}
+                  />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-foreground">{entry.prompt || "Chat sem título"}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {entry.turns.length} turno(s) · {new Date(entry.updatedAt).toLocaleString("pt-BR")}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={handleExport} disabled={selectedChats.length === 0} className="gap-2">
+              <Download className="h-4 w-4" />
+              Exportar {selectedChats.length} chat(s)
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".jsonl,.ndjson,application/x-ndjson"
+        onChange={handleImport}
+        className="hidden"
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex-1 gap-2"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={importing || !isHistoryLoaded}
+      >
+        {importing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+        Importar
+      </Button>
+    </div>
+  );
+};
+
+export default ChatTranscriptActions;
@@ -0,0 +1,282 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gavel, Loader2, Play, Square } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { MODEL_ALIAS_ENTRIES } from "@/lib/modelAliases";
+import { buildVoteMetadataColumns } from "@/lib/arenaVotes";
+import { DEFAULT_JUDGE_MODEL, runJudgeBatch } from "@/lib/judge";
+import type { JudgedBattle, JudgeVerdict } from "@/lib/judge";
+import type { ArenaVoteOutcome } from "@/lib/rating";
+
+interface JudgeBatchPanelProps {
+  className?: string;
+}
+
+interface JudgeBatchRow extends JudgedBattle {
+  saved: boolean;
+}
+
+const OUTCOME_LABELS: Record<ArenaVoteOutcome, string> = {
+  model_a: "Vitória A",
+  model_b: "Vitória B",
+  tie: "Empate",
+  both_good: "Ambos bons",
+  both_bad: "Ambos ruins",
+};
+
+const VERDICT_LABELS: Record<JudgeVerdict, string> = {
+  first: "1ª",
+  second: "2ª",
+  tie: "empate",
+};
+
+const formatRounds = (row: JudgedBattle) =>
+  row.rounds.length === 2
+    ? `A/B: ${row.rounds[0].verdict ? VERDICT_LABELS[row.rounds[0].verdict] : "?"} • B/A: ${
+        row.rounds[1].verdict ? VERDICT_LABELS[row.rounds[1].verdict] : "?"
+      }`
+    : null;
+
+const JudgeBatchPanel = ({ className }: JudgeBatchPanelProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [modelAId, setModelAId] = useState(MODEL_ALIAS_ENTRIES[0]?.id ?? "");
+  const [modelBId, setModelBId] = useState(MODEL_ALIAS_ENTRIES[1]?.id ?? "");
+  const [judgeModel, setJudgeModel] = useState(DEFAULT_JUDGE_MODEL);
+  const [promptsText, setPromptsText] = useState("");
+  const [rows, setRows] = useState<JudgeBatchRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const prompts = promptsText
+    .split("\n")
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  // Judge votes are attributed to the admin running the batch and point to the
+  // stored answers, like arena votes, so they can be audited and de-duplicated.
+  const saveJudgeVote = async (result: JudgedBattle) => {
+    if (!result.outcome || !user) return false;
+    const { error: responsesError } = await supabase.from("arena_responses").insert(
+      [
+        { side: "a", model_id: result.modelAId, response: result.responseA },
+        { side: "b", model_id: result.modelBId, response: result.responseB },
+      ].map(row => ({ ...row, user_id: user.id, battle_id: result.battleId, prompt: result.prompt }))
+    );
+    if (responsesError) {
+      console.error("Error saving judge battle responses:", responsesError);
+      return false;
+    }
+    const winnerModelId =
+      result.outcome === "model_a" ? result.modelAId : result.outcome === "model_b" ? result.modelBId : null;
+    const { error } = await supabase.from("arena_votes").insert({
+      user_id: user.id,
+      battle_id: result.battleId,
+      prompt: result.prompt,
+      model_a_id: result.modelAId,
+      model_b_id: result.modelBId,
+      winner_model_id: winnerModelId,
+      outcome: result.outcome,
+      source: "judge",
+      judge_model: judgeModel.trim(),
+      ...buildVoteMetadataColumns(result.modelAId, result.modelBId),
+    });
+    if (error) {
+      console.error("Error saving judge vote:", error);
+      return false;
+    }
+    return true;
+  };
+
+  const handleRun = async () => {
+    const modelA = MODEL_ALIAS_ENTRIES.find(entry => entry.id === modelAId);
+    const modelB = MODEL_ALIAS_ENTRIES.find(entry => entry.id === modelBId);
+    if (!modelA || !modelB || modelA.id === modelB.id) {
+      toast({
+        title: "Selecione dois modelos diferentes",
+        description: "O juiz compara as respostas de dois checkpoints distintos.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (prompts.length === 0 || !judgeModel.trim()) {
+      toast({
+        title: "Configuração incompleta",
+        description: "Informe o modelo juiz e ao menos um prompt (um por linha).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsRunning(true);
+    setRows([]);
+    setTotal(prompts.length);
+    let savedCount = 0;
+    let failedCount = 0;
+    try {
+      await runJudgeBatch({
+        prompts,
+        modelA,
+        modelB,
+        judgeModel: judgeModel.trim(),
+        signal: controller.signal,
+        onResult: async result => {
+          const saved = await saveJudgeVote(result);
+          if (saved) savedCount += 1;
+          else if (result.outcome) failedCount += 1;
+          setRows(prev => [...prev, { ...result, saved }]);
+        },
+      });
+      toast({
+        title: controller.signal.aborted ? "Avaliação interrompida" : "Avaliação concluída",
+        description: `${savedCount} de ${prompts.length} confronto(s) julgado(s) e registrado(s) como votos do juiz.`,
+      });
+      if (failedCount > 0) {
+        toast({
+          title: "Votos do juiz não salvos",
+          description: `${failedCount} confronto(s) julgado(s) não foram registrados. Veja os detalhes no console.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Não foi possível executar a avaliação.";
+      toast({
+        title: "Erro na avaliação automática",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-2">
+          <Badge variant="outline" className="w-fit rounded-full border-white/10 bg-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.35em] text-muted-foreground">
+            Juiz automático
+          </Badge>
+          <CardTitle className="flex items-center gap-2 text-xl text-foreground">
+            <Gavel className="h-5 w-5 text-primary" />
+            Avaliação LLM-as-judge
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Reproduz cada prompt nos dois modelos e pede ao juiz um veredito nas duas ordens (A/B e B/A). Decisões
+            divergentes contam como empate. Os resultados entram em <code>arena_votes</code> com{" "}
+            <code>source = 'judge'</code>.
+          </p>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <Select value={modelAId} onValueChange={setModelAId} disabled={isRunning}>
+            <SelectTrigger className="rounded-2xl border border-white/10 bg-white/5 text-foreground">
+              <SelectValue placeholder="Modelo A" />
+            </SelectTrigger>
+            <SelectContent>
+              {MODEL_ALIAS_ENTRIES.map(entry => (
+                <SelectItem key={entry.id} value={entry.id}>
+                  A: {entry.displayName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={modelBId} onValueChange={setModelBId} disabled={isRunning}>
+            <SelectTrigger className="rounded-2xl border border-white/10 bg-white/5 text-foreground">
+              <SelectValue placeholder="Modelo B" />
+            </SelectTrigger>
+            <SelectContent>
+              {MODEL_ALIAS_ENTRIES.map(entry => (
+                <SelectItem key={entry.id} value={entry.id}>
+                  B: {entry.displayName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={judgeModel}
+            onChange={event => setJudgeModel(event.target.value)}
+            placeholder="Modelo juiz"
+            aria-label="Modelo juiz"
+            disabled={isRunning}
+            className="rounded-2xl border-white/10 bg-white/5"
+          />
+        </div>
+        <Textarea
+          value={promptsText}
+          onChange={event => setPromptsText(event.target.value)}
+          placeholder="Um prompt por linha"
+          disabled={isRunning}
+          className="min-h-[140px] rounded-2xl border-white/10 bg-white/5"
+        />
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+          {isRunning ? (
+            <Button variant="destructive" onClick={handleStop} className="rounded-2xl">
+              <Square className="mr-2 h-4 w-4" /> Interromper
+            </Button>
+          ) : (
+            <Button
+              onClick={handleRun}
+              disabled={prompts.length === 0}
+              className="rounded-2xl bg-gradient-to-r from-primary to-primary/70 text-primary-foreground hover:from-primary/90 hover:to-accent"
+            >
+              <Play className="mr-2 h-4 w-4" /> Executar {prompts.length > 0 ? `(${prompts.length})` : ""}
+            </Button>
+          )}
+          {(isRunning || rows.length > 0) && (
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              {isRunning && <Loader2 className="h-4 w-4 animate-spin" />}
+              {rows.length} / {total} prompt(s) avaliados
+            </span>
+          )}
+        </div>
+        {rows.length > 0 && (
+          <ul className="space-y-2">
+            {rows.map((row, index) => (
+              <li
+                key={`${index}-${row.prompt}`}
+                className="flex flex-col gap-1 rounded-2xl border border-white/10 bg-background/70 px-4 py-3 text-sm sm:flex-row sm:items-center sm:justify-between"
+              >
+                <span className="line-clamp-2 text-foreground">{row.prompt}</span>
+                <span className="flex shrink-0 items-center gap-2 text-xs text-muted-foreground">
+                  {formatRounds(row)}
+                  <Badge
+                    className={cn(
+                      "border px-2 py-0.5 text-xs",
+                      row.outcome
+                        ? "border-primary/40 bg-primary/15 text-primary"
+                        : "border-destructive/50 bg-destructive/15 text-destructive"
+                    )}
+                    title={row.error ?? undefined}
+                  >
+                    {row.outcome ? OUTCOME_LABELS[row.outcome] : "Sem veredito"}
+                  </Badge>
+                  {row.outcome && !row.saved && <span className="text-destructive">não salvo</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default JudgeBatchPanel;
@@ -2,11 +2,16 @@ import { useState, useEffect, useMemo } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import PositionBiasPanel from "@/components/PositionBiasPanel";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import type { Database } from "@/integrations/supabase/types";
 import { Trophy, Sparkles, Flame, Users, ChevronLeft, ChevronRight } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { computeModelRatings, votesToComparisons } from "@/lib/rating";
+import type { RatingMethod } from "@/lib/rating";
+import { ARENA_VOTE_SOURCE_LABELS } from "@/lib/arenaVotes";
+import type { ArenaVoteSource } from "@/lib/arenaVotes";
 import evalResultsArray from "../../eval_results_array.json";
 
 interface EvalResultTask {
@@ -272,10 +277,32 @@ const inferMetadataFromModelId = (modelId: string): ModelMetadata => {
   };
 };
 
-const getModelMetadata = (modelId: string, fallbackVote?: Partial<ModelMetadata>): ModelMetadata => {
+// Structured per-side columns written by the arena since alias metadata was
+// recorded on votes; they take precedence over anything inferred.
+const getRecordedVoteMetadata = (
+  voteRow: ArenaVoteRow,
+  side: "a" | "b"
+): Partial<ModelMetadata> | null => {
+  const task = side === "a" ? voteRow.model_a_task : voteRow.model_b_task;
+  const family = side === "a" ? voteRow.model_a_family : voteRow.model_b_family;
+  const technique = side === "a" ? voteRow.model_a_technique : voteRow.model_b_technique;
+  if (!task && !family && !technique) return null;
+  return {
+    task: task ?? null,
+    modelFamily: family ?? null,
+    technique: technique ?? null,
+  };
+};
+
+const getModelMetadata = (
+  modelId: string,
+  fallbackVote?: Partial<ModelMetadata>,
+  recordedVote?: Partial<ModelMetadata>
+): ModelMetadata => {
   const fromMap = MODEL_METADATA.get(modelId);
   const inferred = inferMetadataFromModelId(modelId);
   const fallback = fallbackVote ?? {};
+  const recorded = recordedVote ?? {};
 
   const selectValue = (...candidates: (string | null | undefined)[]) => {
     for (const candidate of candidates) {
@@ -292,18 +319,21 @@ const getModelMetadata = (modelId: string, fallbackVote?: Partial<ModelMetadata>
   const fallbackBenchmark = fallback.benchmark ? formatLabel(fallback.benchmark, "Não especificado") : null;
 
   const technique = selectValue(
+    normalizeTechniqueLabel(recorded.technique),
     normalizeTechniqueLabel(fromMap?.technique),
     normalizeTechniqueLabel(inferred.technique),
     fallbackTechnique
   ) ?? "Modelo base";
 
   const modelFamily = selectValue(
+    recorded.modelFamily ? formatLabel(recorded.modelFamily) : null,
     fromMap?.modelFamily,
     inferred.modelFamily,
     fallbackFamily
   );
 
   const task = selectValue(
+    recorded.task ? formatLabel(recorded.task) : null,
     fromMap?.task,
     inferred.task,
     fallbackTask
@@ -327,7 +357,14 @@ interface LeaderboardEntry {
   rank: number;
   modelId: string;
   displayName: string;
-  votes: number;
+  rating: number;
+  ciLower: number;
+  ciUpper: number;
+  elo: number;
+  eloCiLower: number;
+  eloCiUpper: number;
+  games: number;
+  winRate: number;
   technique: string;
   task: string;
   modelFamily: string;
@@ -336,6 +373,11 @@ interface LeaderboardEntry {
 
 const Leaderboard = () => {
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardEntry[]>([]);
+  const [totalBattles, setTotalBattles] = useState(0);
+  const [loadedVotes, setLoadedVotes] = useState<ArenaVoteRow[]>([]);
+  const [ratingMethod, setRatingMethod] = useState<RatingMethod>("bradley_terry");
+  const [voteSource, setVoteSource] = useState<ArenaVoteSource | "all">("human");
+  const [includeFlaggedVotes, setIncludeFlaggedVotes] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [filterTechnique, setFilterTechnique] = useState<string>("all");
   const [filterTask, setFilterTask] = useState<string>("all");
@@ -344,8 +386,8 @@ const Leaderboard = () => {
   const [pageInput, setPageInput] = useState("1");
 
   useEffect(() => {
-    loadLeaderboardData();
-  }, []);
+    loadLeaderboardData(voteSource, includeFlaggedVotes);
+  }, [voteSource, includeFlaggedVotes]);
 
   const KNOWN_MODEL_FAMILIES = [
     "Llama-3.2-3B-Instruct",
@@ -392,8 +434,15 @@ const Leaderboard = () => {
     setFilterTechnique("all");
   };
 
+  const rankedData = useMemo(() => {
+    const scoreOf = (entry: LeaderboardEntry) => (ratingMethod === "elo" ? entry.elo : entry.rating);
+    return [...leaderboardData]
+      .sort((a, b) => scoreOf(b) - scoreOf(a) || b.games - a.games)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+  }, [leaderboardData, ratingMethod]);
+
   // Filter data
-  const filteredData = leaderboardData.filter(entry => {
+  const filteredData = rankedData.filter(entry => {
     if (filterTechnique !== "all" && entry.technique !== filterTechnique) return false;
     if (filterTask !== "all") {
       const normalizedFilterTask = formatLabel(filterTask);
@@ -427,6 +476,9 @@ const Leaderboard = () => {
     return filteredData.slice(startIndex, startIndex + ITEMS_PER_PAGE);
   }, [filteredData, currentPage]);
 
+  // Judge votes were never shown on screen, so they have no left or right side to measure.
+  const humanVotes = useMemo(() => loadedVotes.filter(vote => vote.source === "human"), [loadedVotes]);
+
   const pageStart = totalEntries === 0 ? 0 : (currentPage - 1) * ITEMS_PER_PAGE + 1;
   const pageEnd = totalEntries === 0 ? 0 : Math.min(pageStart + ITEMS_PER_PAGE - 1, totalEntries);
 
@@ -463,80 +515,87 @@ const Leaderboard = () => {
     }
   };
 
-  const loadLeaderboardData = async () => {
+  const loadLeaderboardData = async (source: ArenaVoteSource | "all", includeFlagged: boolean) => {
     try {
       setIsLoading(true);
 
-      const { data: votes, error } = await supabase
-        .from("arena_votes")
-        .select("*");
+      let query = supabase.from("arena_votes").select("*");
+      if (source !== "all") {
+        query = query.eq("source", source);
+      }
+      // Votes flagged by the check_arena_vote trigger (duplicates, bot-like timing or streaks).
+      if (!includeFlagged) {
+        query = query.is("flag", null);
+      }
+      const { data: votes, error } = await query;
 
       if (error) throw error;
 
       const voteRows: ArenaVoteRow[] = (votes ?? []) as ArenaVoteRow[];
+      setLoadedVotes(voteRows);
+
+      const comparisons = votesToComparisons(voteRows);
+      setTotalBattles(comparisons.length);
+
+      if (comparisons.length > 0) {
+        const fallbackByModel = new Map<string, Partial<ModelMetadata>>();
+        const recordedByModel = new Map<string, Partial<ModelMetadata>>();
+        voteRows.forEach(voteRow => {
+          (["a", "b"] as const).forEach(side => {
+            const sideModelId = side === "a" ? voteRow.model_a_id : voteRow.model_b_id;
+            if (!sideModelId || recordedByModel.has(sideModelId)) return;
+            const recorded = getRecordedVoteMetadata(voteRow, side);
+            if (recorded) recordedByModel.set(sideModelId, recorded);
+          });
+
+          // Losers and tied models need a name too, so every participant gets the row-level fallback.
+          const participantIds = voteRow.participants?.length
+            ? voteRow.participants
+            : [voteRow.model_a_id, voteRow.model_b_id, voteRow.winner_model_id];
+          participantIds.forEach(modelId => {
+            if (!modelId || fallbackByModel.has(modelId)) return;
+            fallbackByModel.set(modelId, {
+              technique: voteRow.technique ?? voteRow.model_technique ?? null,
+              task: voteRow.task ?? voteRow.benchmark_task ?? null,
+              modelFamily: voteRow.model_family ?? voteRow.modelFamily ?? null,
+              benchmark: voteRow.benchmark ?? voteRow.benchmark_name ?? voteRow.benchmarkName ?? null,
+            });
+          });
+        });
 
-      if (voteRows.length > 0) {
-        const votesByModel = voteRows.reduce((acc: Record<string, {
-          votes: number;
-          technique: string | null;
-          task: string | null;
-          modelFamily: string | null;
-          benchmark: string | null;
-        }>, voteRow) => {
-          const modelId = voteRow.winner_model_id || "Desconhecido";
-          const fallbackMeta: Partial<ModelMetadata> = {
-            technique: voteRow.technique ?? voteRow.model_technique ?? null,
-            task: voteRow.task ?? voteRow.benchmark_task ?? null,
-            modelFamily: voteRow.model_family ?? voteRow.modelFamily ?? null,
-            benchmark: voteRow.benchmark ?? voteRow.benchmark_name ?? voteRow.benchmarkName ?? null,
+        const processedData: LeaderboardEntry[] = computeModelRatings(comparisons).map(rating => {
+          const { modelId } = rating;
+          const metadata = getModelMetadata(modelId, fallbackByModel.get(modelId), recordedByModel.get(modelId));
+          const modelFamily =
+            metadata.modelFamily && metadata.modelFamily !== "Não especificada"
+              ? metadata.modelFamily
+              : formatLabel(modelId);
+          const technique = metadata.technique ?? "Modelo base";
+          const task =
+            metadata.task && metadata.task !== "Não especificada"
+              ? metadata.task
+              : "Não especificada";
+          const displayParts = dedupeParts([modelFamily, technique, task]);
+          const displayName = displayParts.length > 0 ? displayParts.join(" • ") : formatLabel(modelId);
+
+          return {
+            rank: 0,
+            modelId,
+            displayName,
+            rating: rating.rating,
+            ciLower: rating.ciLower,
+            ciUpper: rating.ciUpper,
+            elo: rating.elo,
+            eloCiLower: rating.eloCiLower,
+            eloCiUpper: rating.eloCiUpper,
+            games: rating.games,
+            winRate: rating.winRate,
+            technique,
+            task,
+            modelFamily,
+            benchmark: metadata.benchmark ?? "Não especificado",
           };
-          const metadata = getModelMetadata(modelId, fallbackMeta);
-
-          const record = acc[modelId] ?? {
-            votes: 0,
-            technique: metadata.technique,
-            task: metadata.task,
-            modelFamily: metadata.modelFamily,
-            benchmark: metadata.benchmark,
-          };
-
-          record.votes += 1;
-          record.technique = metadata.technique || record.technique;
-          record.task = metadata.task || record.task;
-          record.modelFamily = metadata.modelFamily || record.modelFamily;
-          record.benchmark = metadata.benchmark || record.benchmark;
-
-          acc[modelId] = record;
-          return acc;
-        }, {});
-
-        const processedData: LeaderboardEntry[] = Object.entries(votesByModel)
-          .map(([modelId, data]) => {
-            const modelFamily =
-              data.modelFamily && data.modelFamily !== "Não especificada"
-                ? data.modelFamily
-                : formatLabel(modelId);
-            const technique = data.technique ?? "Modelo base";
-            const task =
-              data.task && data.task !== "Não especificada"
-                ? data.task
-                : "Não especificada";
-            const displayParts = dedupeParts([modelFamily, technique, task]);
-            const displayName = displayParts.length > 0 ? displayParts.join(" • ") : formatLabel(modelId);
-
-            return {
-              rank: 0,
-              modelId,
-              displayName,
-              votes: data.votes,
-              technique,
-              task,
-              modelFamily,
-              benchmark: data.benchmark ?? "Não especificado",
-            };
-          })
-          .sort((a, b) => b.votes - a.votes)
-          .map((entry, index) => ({ ...entry, rank: index + 1 }));
+        });
 
         setLeaderboardData(processedData);
       } else {
@@ -545,12 +604,14 @@ const Leaderboard = () => {
     } catch (error) {
       console.error("Error loading leaderboard data:", error);
       setLeaderboardData([]);
+      setLoadedVotes([]);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const totalVotes = filteredData.reduce((sum, item) => sum + item.votes, 0);
+  const formatRating = (value: number) => (Number.isFinite(value) ? Math.round(value).toString() : "—");
+  const formatWinRate = (value: number) => `${(value * 100).toFixed(1)}%`;
   const topModel = filteredData[0];
   const topModelLabel = topModel
     ? topModel.modelFamily && topModel.modelFamily !== "Não especificada"
@@ -582,7 +643,7 @@ const Leaderboard = () => {
             <p className="text-sm font-semibold uppercase tracking-[0.4em] text-primary/70">Leaderboard</p>
             <h1 className="text-3xl font-bold text-foreground sm:text-4xl">Arena de Modelos</h1>
             <p className="max-w-3xl text-lg text-muted-foreground/90 sm:text-xl">
-              Ranking atualizado com base nos votos da comunidade.
+              Ranking Bradley-Terry/Elo calculado a partir dos confrontos votados pela comunidade.
             </p>
           </div>
           {topModel && topModelLabel && (
@@ -621,10 +682,10 @@ const Leaderboard = () => {
               <div className="space-y-2 rounded-2xl border border-white/10 bg-white/5 p-4">
                 <p className="flex items-center gap-2 text-sm font-semibold uppercase tracking-[0.3em] text-primary/70">
                   <Users className="h-4 w-4" />
-                  Votos somados
+                  Confrontos
                 </p>
-                <p className="text-4xl font-semibold text-foreground">{totalVotes}</p>
-                <p className="text-base text-muted-foreground/90 sm:text-lg">Feedbacks registrados pelos usuários</p>
+                <p className="text-4xl font-semibold text-foreground">{totalBattles}</p>
+                <p className="text-base text-muted-foreground/90 sm:text-lg">Comparações pareadas usadas no rating</p>
               </div>
               <div className="space-y-2 rounded-2xl border border-white/10 bg-white/5 p-4">
                 <p className="flex items-center gap-2 text-sm font-semibold uppercase tracking-[0.3em] text-primary/70">
@@ -651,7 +712,7 @@ const Leaderboard = () => {
                 Limpar filtros
               </Button>
             </div>
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-6">
               <Select value={filterTask} onValueChange={setFilterTask}>
                 <SelectTrigger className="h-12 rounded-2xl border border-white/10 bg-white/5 text-lg text-foreground">
                   <SelectValue placeholder="Filtrar por tarefa" />
@@ -693,6 +754,43 @@ const Leaderboard = () => {
                   ))}
                 </SelectContent>
               </Select>
+
+              <Select value={ratingMethod} onValueChange={value => setRatingMethod(value as RatingMethod)}>
+                <SelectTrigger className="h-12 rounded-2xl border border-white/10 bg-white/5 text-lg text-foreground">
+                  <SelectValue placeholder="Método de rating" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="bradley_terry">Bradley-Terry</SelectItem>
+                  <SelectItem value="elo">Elo</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select value={voteSource} onValueChange={value => setVoteSource(value as ArenaVoteSource | "all")}>
+                <SelectTrigger className="h-12 rounded-2xl border border-white/10 bg-white/5 text-lg text-foreground">
+                  <SelectValue placeholder="Origem dos votos" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ARENA_VOTE_SOURCE_LABELS) as ArenaVoteSource[]).map(source => (
+                    <SelectItem key={source} value={source}>
+                      {ARENA_VOTE_SOURCE_LABELS[source]}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="all">Humanos + juiz</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select
+                value={includeFlaggedVotes ? "include" : "exclude"}
+                onValueChange={value => setIncludeFlaggedVotes(value === "include")}
+              >
+                <SelectTrigger className="h-12 rounded-2xl border border-white/10 bg-white/5 text-lg text-foreground">
+                  <SelectValue placeholder="Votos suspeitos" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="exclude">Sem votos suspeitos</SelectItem>
+                  <SelectItem value="include">Incluir votos suspeitos</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
           </section>
 
@@ -717,6 +815,9 @@ const Leaderboard = () => {
                     ? entry.modelFamily
                     : formatLabel(entry.modelId);
                 const techniqueLabel = entry.technique || "Modelo base";
+                const ratingValue = ratingMethod === "elo" ? entry.elo : entry.rating;
+                const ratingLower = ratingMethod === "elo" ? entry.eloCiLower : entry.ciLower;
+                const ratingUpper = ratingMethod === "elo" ? entry.eloCiUpper : entry.ciUpper;
                 const taskLabel = entry.task !== "Não especificada" ? entry.task : null;
                 const badges = taskLabel ? [{ prefix: "Tarefa", value: taskLabel }] : [];
 
@@ -768,8 +869,14 @@ const Leaderboard = () => {
                     <div className="flex items-center gap-4 rounded-2xl border border-white/10 bg-white/5 px-5 py-4 text-primary shadow-[0_18px_40px_-25px_rgba(147,51,234,0.7)] sm:justify-self-end">
                       <Trophy className={cn("h-5 w-5", theme.crown)} />
                       <div className="flex flex-col">
-                        <span className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Votos</span>
-                        <span className="text-2xl font-semibold text-foreground">{entry.votes}</span>
+                        <span className="text-xs uppercase tracking-[0.3em] text-muted-foreground">Rating</span>
+                        <span className="text-2xl font-semibold text-foreground">{formatRating(ratingValue)}</span>
+                        <span className="text-xs text-muted-foreground/80">
+                          IC 95%: {formatRating(ratingLower)}–{formatRating(ratingUpper)}
+                        </span>
+                        <span className="text-xs text-muted-foreground/80">
+                          {entry.games} {entry.games === 1 ? "jogo" : "jogos"} · {formatWinRate(entry.winRate)} vitórias
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -779,7 +886,7 @@ const Leaderboard = () => {
             {totalEntries > 0 && (
               <div className="flex flex-col gap-4 pt-4 sm:flex-row sm:items-center sm:justify-between">
                 <p className="text-base text-muted-foreground/90">
-                  Mostrando {pageStart === 0 ? 0 : pageStart}–{pageEnd} de {totalEntries} {totalEntries === 1 ? "voto" : "votos"}
+                  Mostrando {pageStart === 0 ? 0 : pageStart}–{pageEnd} de {totalEntries} {totalEntries === 1 ? "modelo" : "modelos"}
                 </p>
                 <div className="flex flex-wrap items-center gap-3">
                   <div className="flex items-center gap-2">
@@ -841,6 +948,13 @@ const Leaderboard = () => {
               </div>
             )}
           </section>
+
+          <PositionBiasPanel
+            votes={humanVotes}
+            getModelLabel={modelId =>
+              leaderboardData.find(entry => entry.modelId === modelId)?.displayName ?? formatLabel(modelId)
+            }
+          />
         </div>
       </div>
     </div>
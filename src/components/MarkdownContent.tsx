@@ -0,0 +1,77 @@
+import ReactMarkdown from "react-markdown";
+import type { Components, Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+// Raw HTML in model output is never rendered (react-markdown escapes it), and
+// the tree is sanitized before KaTeX and highlight.js add their own markup,
+// so only the classes remark-math relies on are let through.
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [["className", /^language-./, "math-inline", "math-display"]],
+  },
+};
+
+const REMARK_PLUGINS: Options["remarkPlugins"] = [remarkGfm, remarkMath];
+const REHYPE_PLUGINS: Options["rehypePlugins"] = [
+  [rehypeSanitize, SANITIZE_SCHEMA],
+  rehypeKatex,
+  [rehypeHighlight, { detect: false }],
+];
+
+const COMPONENTS: Components = {
+  p: ({ node: _node, ...props }) => <p className="my-3 first:mt-0 last:mb-0" {...props} />,
+  ul: ({ node: _node, ...props }) => <ul className="my-3 list-disc space-y-1 pl-6" {...props} />,
+  ol: ({ node: _node, ...props }) => <ol className="my-3 list-decimal space-y-1 pl-6" {...props} />,
+  h1: ({ node: _node, ...props }) => <h3 className="mb-2 mt-4 text-2xl font-semibold" {...props} />,
+  h2: ({ node: _node, ...props }) => <h3 className="mb-2 mt-4 text-xl font-semibold" {...props} />,
+  h3: ({ node: _node, ...props }) => <h4 className="mb-2 mt-4 text-lg font-semibold" {...props} />,
+  a: ({ node: _node, ...props }) => (
+    <a className="text-primary underline underline-offset-4" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote className="my-3 border-l-2 border-primary/50 pl-4 text-muted-foreground" {...props} />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre
+      className="my-3 overflow-x-auto rounded-xl border border-white/10 bg-black/50 p-4 text-base [&>code]:bg-transparent [&>code]:p-0"
+      {...props}
+    />
+  ),
+  code: ({ node: _node, className, ...props }) => (
+    <code className={cn("rounded bg-white/10 px-1.5 py-0.5 font-mono text-[0.9em]", className)} {...props} />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full border-collapse text-base" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => (
+    <th className="border border-white/15 bg-white/5 px-3 py-2 text-left font-semibold" {...props} />
+  ),
+  td: ({ node: _node, ...props }) => <td className="border border-white/15 px-3 py-2" {...props} />,
+};
+
+/** Renders model output as GitHub-flavoured Markdown with KaTeX math and highlighted code. */
+const MarkdownContent = ({ content, className }: MarkdownContentProps) => (
+  <div className={cn("break-words", className)}>
+    <ReactMarkdown remarkPlugins={REMARK_PLUGINS} rehypePlugins={REHYPE_PLUGINS} components={COMPONENTS}>
+      {content}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownContent;
@@ -0,0 +1,115 @@
+import { useMemo } from "react";
+import { Scale } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { computePositionBias } from "@/lib/positionBias";
+import type { PositionVoteLike } from "@/lib/positionBias";
+
+interface PositionBiasPanelProps {
+  votes: PositionVoteLike[];
+  getModelLabel: (modelId: string) => string;
+}
+
+const formatRate = (value: number | null) => (value === null ? "—" : `${(value * 100).toFixed(1)}%`);
+
+const formatBias = (value: number | null) =>
+  value === null ? "—" : `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)} p.p.`;
+
+/**
+ * Checks whether voters favour the left card. Each battle shuffles where its
+ * outputs are shown, so without a bias the left one wins about half the time.
+ */
+const PositionBiasPanel = ({ votes, getModelLabel }: PositionBiasPanelProps) => {
+  const summary = useMemo(() => computePositionBias(votes), [votes]);
+
+  return (
+    <section className="rounded-3xl border border-white/10 bg-white/5 p-6 shadow-[0_25px_90px_-60px_rgba(147,51,234,0.5)] sm:p-10">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <p className="flex items-center gap-2 text-sm font-semibold uppercase tracking-[0.35em] text-primary/70">
+            <Scale className="h-4 w-4" />
+            Viés de posição
+          </p>
+          <h2 className="text-2xl font-semibold text-foreground sm:text-3xl">Esquerda vs. direita</h2>
+        </div>
+        {summary.zScore !== null && (
+          <Badge
+            variant="outline"
+            className={cn(
+              "rounded-full px-3 py-1 text-xs font-semibold uppercase tracking-wider",
+              summary.isSignificant ? "border-destructive/50 text-destructive" : "border-white/20 text-muted-foreground"
+            )}
+          >
+            {summary.isSignificant ? "Viés significativo (95%)" : "Sem viés significativo"}
+          </Badge>
+        )}
+      </div>
+
+      {summary.decisiveVotes === 0 ? (
+        <p className="text-base text-muted-foreground">Ainda não há votos pareados com vencedor para medir o viés.</p>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-1 rounded-2xl border border-white/10 bg-white/5 p-4">
+              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-primary/70">Vitórias à esquerda</p>
+              <p className="text-3xl font-semibold text-foreground">{formatRate(summary.leftWinRate)}</p>
+              <p className="text-sm text-muted-foreground">
+                {summary.leftWins} de {summary.decisiveVotes} votos com vencedor
+              </p>
+            </div>
+            <div className="space-y-1 rounded-2xl border border-white/10 bg-white/5 p-4">
+              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-primary/70">Escore z</p>
+              <p className="text-3xl font-semibold text-foreground">{summary.zScore?.toFixed(2) ?? "—"}</p>
+              <p className="text-sm text-muted-foreground">Contra 50% de vitórias à esquerda; |z| ≥ 1,96 é significativo</p>
+            </div>
+            <div className="space-y-1 rounded-2xl border border-white/10 bg-white/5 p-4">
+              <p className="text-xs font-semibold uppercase tracking-[0.3em] text-primary/70">Vitórias à direita</p>
+              <p className="text-3xl font-semibold text-foreground">
+                {formatRate(summary.leftWinRate === null ? null : 1 - summary.leftWinRate)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {summary.decisiveVotes - summary.leftWins} de {summary.decisiveVotes} votos com vencedor
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full min-w-[560px] text-left text-sm">
+              <thead className="text-xs uppercase tracking-[0.25em] text-muted-foreground">
+                <tr className="border-b border-white/10">
+                  <th className="py-3 pr-4 font-semibold">Modelo</th>
+                  <th className="py-3 pr-4 font-semibold">À esquerda</th>
+                  <th className="py-3 pr-4 font-semibold">À direita</th>
+                  <th className="py-3 font-semibold">Diferença</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.byModel.map(stats => (
+                  <tr key={stats.modelId} className="border-b border-white/5 last:border-0">
+                    <td className="py-3 pr-4 font-medium text-foreground">{getModelLabel(stats.modelId)}</td>
+                    <td className="py-3 pr-4 text-muted-foreground">
+                      {formatRate(stats.leftWinRate)} <span className="text-xs">({stats.leftBattles})</span>
+                    </td>
+                    <td className="py-3 pr-4 text-muted-foreground">
+                      {formatRate(stats.rightWinRate)} <span className="text-xs">({stats.rightBattles})</span>
+                    </td>
+                    <td
+                      className={cn(
+                        "py-3 font-semibold",
+                        stats.bias === null ? "text-muted-foreground" : stats.bias > 0 ? "text-primary" : "text-accent"
+                      )}
+                    >
+                      {formatBias(stats.bias)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default PositionBiasPanel;
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Brain, ChevronDown, EyeOff } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import MarkdownContent from "@/components/MarkdownContent";
+import { cn } from "@/lib/utils";
+import { parseReasoning } from "@/lib/reasoning";
+
+interface ReasoningViewProps {
+  text: string;
+  // Keeps the chain of thought out of sight so the vote judges the final answer only.
+  hideReasoning?: boolean;
+}
+
+const formatCounts = (words: number, tokens: number) => `${words} palavras · ~${tokens} tokens`;
+
+const ReasoningView = ({ text, hideReasoning = false }: ReasoningViewProps) => {
+  const parsed = parseReasoning(text);
+  // Open while the model is still thinking; finished answers start collapsed.
+  const [isOpen, setIsOpen] = useState(parsed.isReasoningOpen);
+  const hasReasoning = parsed.segments.some(segment => segment.type === "reasoning");
+
+  if (!hasReasoning) {
+    return <MarkdownContent content={text} className="text-xl leading-relaxed text-foreground sm:text-2xl" />;
+  }
+
+  const { stats } = parsed;
+  return (
+    <div className="space-y-4">
+      {hideReasoning ? (
+        <div className="flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-base text-muted-foreground/80">
+          <EyeOff className="h-4 w-4" />
+          <span>Raciocínio oculto até o voto</span>
+          <span className="ml-auto text-sm text-muted-foreground/60">
+            {formatCounts(stats.reasoningWords, stats.reasoningTokens)}
+          </span>
+        </div>
+      ) : (
+        <Collapsible open={isOpen} onOpenChange={setIsOpen} className="rounded-2xl border border-white/10 bg-white/5">
+          <CollapsibleTrigger className="flex w-full items-center gap-2 px-4 py-3 text-left text-base text-muted-foreground hover:text-foreground">
+            <Brain className={cn("h-4 w-4 text-primary", parsed.isReasoningOpen && "animate-pulse")} />
+            <span className="font-semibold">{parsed.isReasoningOpen ? "Raciocinando..." : "Raciocínio"}</span>
+            <span className="ml-auto text-sm text-muted-foreground/60">
+              {formatCounts(stats.reasoningWords, stats.reasoningTokens)}
+            </span>
+            <ChevronDown className={cn("h-4 w-4 transition-transform", isOpen && "rotate-180")} />
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-3 border-t border-white/10 px-4 py-3">
+            {parsed.segments
+              .filter(segment => segment.type === "reasoning")
+              .map((segment, index) => (
+                <MarkdownContent
+                  key={`reasoning-${index}`}
+                  content={segment.content}
+                  className="text-[1.1rem] leading-relaxed text-muted-foreground/75"
+                />
+              ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+      {(parsed.answer || !parsed.isReasoningOpen) && (
+        <div className="space-y-2 rounded-2xl border border-primary/25 bg-primary/5 px-4 py-3">
+          <div className="flex items-center justify-between gap-3 text-sm text-muted-foreground/70">
+            <span className="font-semibold uppercase tracking-[0.3em] text-primary/70">Resposta final</span>
+            <span>{formatCounts(stats.answerWords, stats.answerTokens)}</span>
+          </div>
+          {parsed.answer ? (
+            <MarkdownContent content={parsed.answer} className="text-xl leading-relaxed text-foreground sm:text-2xl" />
+          ) : (
+            <p className="text-lg italic text-muted-foreground/70">Sem resposta após o raciocínio.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReasoningView;
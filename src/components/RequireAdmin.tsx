@@ -0,0 +1,52 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/context/AuthContext";
+
+/**
+ * Route guard for admin pages. It only decides what to render: the RLS
+ * policies are what actually keep non-admins from writing.
+ */
+const RequireAdmin = ({ children }: { children: ReactNode }) => {
+  const { user, isAuthLoaded, isAdmin, signOut } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthLoaded) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" /> Verificando acesso...
+      </div>
+    );
+  }
+
+  // Anonymous voter sessions never count as a login.
+  if (!user || user.is_anonymous) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 bg-background p-6 text-center">
+        <ShieldAlert className="h-10 w-10 text-destructive" />
+        <h1 className="text-2xl font-bold text-foreground">Acesso restrito</h1>
+        <p className="max-w-md text-muted-foreground">
+          A conta {user.email} não tem permissão de administrador. Peça a um administrador para conceder o papel
+          <code className="mx-1">admin</code>.
+        </p>
+        <div className="flex gap-3">
+          <Button variant="outline" onClick={() => void signOut()}>
+            Entrar com outra conta
+          </Button>
+          <Button asChild>
+            <Link to="/">Voltar ao Arena</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireAdmin;
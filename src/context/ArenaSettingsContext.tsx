@@ -0,0 +1,137 @@
+import type { ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { MATCHMAKING_STRATEGY_LABELS } from "@/lib/matchmaking";
+import type { MatchmakingStrategy } from "@/lib/matchmaking";
+import { BATTLE_SIZES, MULTIWAY_VOTE_TYPE_LABELS } from "@/lib/arenaVotes";
+import type { BattleSize, MultiwayVoteType } from "@/lib/arenaVotes";
+
+export interface ArenaSettings {
+  // Hide model identities until the turn has been voted on.
+  blindMode: boolean;
+  // Collapse <think> blocks into a placeholder until the turn has been voted on.
+  hideReasoning: boolean;
+  matchmakingStrategy: MatchmakingStrategy;
+  sameTaskOnly: boolean;
+  // Models shown per battle; above two, votes are a ranking or a single best pick.
+  battleSize: BattleSize;
+  multiwayVoteType: MultiwayVoteType;
+}
+
+interface ArenaSettingsContextValue extends ArenaSettings {
+  setBlindMode: (value: boolean) => void;
+  setHideReasoning: (value: boolean) => void;
+  setMatchmakingStrategy: (value: MatchmakingStrategy) => void;
+  setSameTaskOnly: (value: boolean) => void;
+  setBattleSize: (value: BattleSize) => void;
+  setMultiwayVoteType: (value: MultiwayVoteType) => void;
+}
+
+const ArenaSettingsContext = createContext<ArenaSettingsContextValue | undefined>(undefined);
+const STORAGE_KEY = "arena-settings";
+
+const DEFAULT_SETTINGS: ArenaSettings = {
+  blindMode: true,
+  hideReasoning: false,
+  matchmakingStrategy: "balanced",
+  sameTaskOnly: true,
+  battleSize: 2,
+  multiwayVoteType: "ranked",
+};
+
+const readInitialSettings = (): ArenaSettings => {
+  if (typeof window === "undefined") {
+    return DEFAULT_SETTINGS;
+  }
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<ArenaSettings>;
+    return {
+      blindMode: typeof parsed.blindMode === "boolean" ? parsed.blindMode : DEFAULT_SETTINGS.blindMode,
+      hideReasoning:
+        typeof parsed.hideReasoning === "boolean" ? parsed.hideReasoning : DEFAULT_SETTINGS.hideReasoning,
+      matchmakingStrategy:
+        parsed.matchmakingStrategy && parsed.matchmakingStrategy in MATCHMAKING_STRATEGY_LABELS
+          ? parsed.matchmakingStrategy
+          : DEFAULT_SETTINGS.matchmakingStrategy,
+      sameTaskOnly: typeof parsed.sameTaskOnly === "boolean" ? parsed.sameTaskOnly : DEFAULT_SETTINGS.sameTaskOnly,
+      battleSize: (BATTLE_SIZES as readonly unknown[]).includes(parsed.battleSize)
+        ? (parsed.battleSize as BattleSize)
+        : DEFAULT_SETTINGS.battleSize,
+      multiwayVoteType:
+        parsed.multiwayVoteType && parsed.multiwayVoteType in MULTIWAY_VOTE_TYPE_LABELS
+          ? parsed.multiwayVoteType
+          : DEFAULT_SETTINGS.multiwayVoteType,
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const ArenaSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const [settings, setSettings] = useState<ArenaSettings>(readInitialSettings);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // Ignore storage errors silently
+    }
+  }, [settings]);
+
+  const setBlindMode = useCallback((value: boolean) => {
+    setSettings(prev => ({ ...prev, blindMode: value }));
+  }, []);
+
+  const setHideReasoning = useCallback((value: boolean) => {
+    setSettings(prev => ({ ...prev, hideReasoning: value }));
+  }, []);
+
+  const setMatchmakingStrategy = useCallback((value: MatchmakingStrategy) => {
+    setSettings(prev => ({ ...prev, matchmakingStrategy: value }));
+  }, []);
+
+  const setSameTaskOnly = useCallback((value: boolean) => {
+    setSettings(prev => ({ ...prev, sameTaskOnly: value }));
+  }, []);
+
+  const setBattleSize = useCallback((value: BattleSize) => {
+    setSettings(prev => ({ ...prev, battleSize: value }));
+  }, []);
+
+  const setMultiwayVoteType = useCallback((value: MultiwayVoteType) => {
+    setSettings(prev => ({ ...prev, multiwayVoteType: value }));
+  }, []);
+
+  const value = useMemo(
+    () => ({
+      ...settings,
+      setBlindMode,
+      setHideReasoning,
+      setMatchmakingStrategy,
+      setSameTaskOnly,
+      setBattleSize,
+      setMultiwayVoteType,
+    }),
+    [
+      settings,
+      setBlindMode,
+      setHideReasoning,
+      setMatchmakingStrategy,
+      setSameTaskOnly,
+      setBattleSize,
+      setMultiwayVoteType,
+    ]
+  );
+
+  return <ArenaSettingsContext.Provider value={value}>{children}</ArenaSettingsContext.Provider>;
+};
+
+export const useArenaSettings = (): ArenaSettingsContextValue => {
+  const context = useContext(ArenaSettingsContext);
+  if (!context) {
+    throw new Error("useArenaSettings must be used within an ArenaSettingsProvider");
+  }
+  return context;
+};
@@ -0,0 +1,104 @@
+import type { ReactNode } from "react";
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  // False until the stored session and its roles have been read.
+  isAuthLoaded: boolean;
+  isAdmin: boolean;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  // Id of the user votes are attributed to, starting an anonymous session when there is none.
+  ensureVoterSession: () => Promise<string>;
+}
+
+const AuthContext = createContext<AuthContextValue | undefined>(undefined);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isSessionLoaded, setIsSessionLoaded] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsSessionLoaded(true);
+    });
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, nextSession) => setSession(nextSession));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id ?? null;
+
+  // Roles are only readable by their owner (see the user_roles RLS policy).
+  useEffect(() => {
+    if (!userId) {
+      setIsAdmin(false);
+      setRolesUserId(null);
+      return;
+    }
+    let cancelled = false;
+    supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", userId)
+      .eq("role", "admin")
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) console.error("Error loading user roles:", error);
+        setIsAdmin(Boolean(data));
+        setRolesUserId(userId);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const signIn = useCallback(async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  }, []);
+
+  const ensureVoterSession = useCallback(async () => {
+    const { data } = await supabase.auth.getSession();
+    if (data.session) return data.session.user.id;
+    const { data: anonymous, error } = await supabase.auth.signInAnonymously();
+    if (error || !anonymous.user) throw error ?? new Error("Não foi possível iniciar uma sessão para votar.");
+    return anonymous.user.id;
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      session,
+      user: session?.user ?? null,
+      isAuthLoaded: isSessionLoaded && rolesUserId === userId,
+      isAdmin: isAdmin && rolesUserId === userId,
+      signIn,
+      signOut,
+      ensureVoterSession,
+    }),
+    [session, isSessionLoaded, rolesUserId, userId, isAdmin, signIn, signOut, ensureVoterSession]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
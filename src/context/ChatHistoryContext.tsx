@@ -1,4 +1,27 @@
-import { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { mergeRemoteChats, planChatSync } from "@/lib/chatSync";
+import { mergeImportedChats } from "@/lib/chatTranscripts";
+import type { ChatImportResult } from "@/lib/chatTranscripts";
+import { loadChatHistory, quarantineChat, toStoredChatHistory, validateChatEntries } from "@/lib/chatHistoryStorage";
+import type { LoadedChatHistory, QuarantinedChat } from "@/lib/chatHistoryStorage";
+import {
+  isIndexedDbAvailable,
+  loadChatRecords,
+  measureChatSize,
+  openChatHistoryDb,
+  pickEvictions,
+  readChatRecords,
+  toChatRecord,
+  writeChatRecords,
+} from "@/lib/chatHistoryDb";
+import type { ChatRecord, ChatRecordUsage } from "@/lib/chatHistoryDb";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import type { ArenaVoteOutcome } from "@/lib/rating";
+import type { TaskSource } from "@/lib/promptClassifier";
+import type { AnswerGrade } from "@/lib/answerGrading";
 
 export interface ChatTurnOutput {
   id: string;
@@ -6,16 +29,32 @@ export interface ChatTurnOutput {
   modelName: string;
   response: string;
   responseTimeMs: number;
+  tokensUsed?: number | null;
+  timeToFirstTokenMs?: number | null;
+  tokensPerSecond?: number | null;
+  error?: string | null;
+  grade?: AnswerGrade | null;
 }
 
 export interface ChatTurn {
   id: string;
+  // Shared by the turn's `arena_responses` rows and its `arena_votes` row.
+  battleId?: string | null;
   prompt: string;
+  // Task the battle was routed to, and whether the user picked it or the classifier did.
+  task?: string | null;
+  taskSource?: TaskSource | null;
+  goldAnswer?: string | null;
   timestamp: string;
   outputs: ChatTurnOutput[];
   winnerOutputId?: string | null;
   winnerModelId?: string | null;
   winnerModelName?: string | null;
+  outcome?: ArenaVoteOutcome | null;
+  // Output ids in voted order, best first, for battles with more than two models.
+  ranking?: string[] | null;
+  // Output ids left to right as shown. `outputs` keeps the model_a/model_b order.
+  displayOrder?: string[] | null;
 }
 
 export interface ChatHistoryEntry {
@@ -24,28 +63,75 @@ export interface ChatHistoryEntry {
   timestamp: string;
   updatedAt: string;
   winner?: string;
+  // Normalized with `normalizeTag`; pinned chats are listed first.
+  tags?: string[];
+  pinned?: boolean;
+  // Account the chat syncs with; null for chats made signed out or in an
+  // anonymous session. Chats stored before this field existed leave it unset.
+  ownerId?: string | null;
   turns: ChatTurn[];
 }
 
+export interface ChatStorageUsage {
+  backend: "indexedDB" | "localStorage";
+  chatBytes: number;
+  budgetBytes: number;
+  // Whole-origin figures from navigator.storage.estimate(), when the browser reports them.
+  usageBytes: number | null;
+  quotaBytes: number | null;
+  isNearQuota: boolean;
+}
+
 interface ChatHistoryContextValue {
   history: ChatHistoryEntry[];
   currentChatId: string | null;
   addChat: (prompt: string) => string;
   updateChat: (id: string, updates: Partial<Omit<ChatHistoryEntry, "id" | "turns">>) => void;
   appendTurn: (id: string, turn: ChatTurn) => void;
+  updateTurnOutput: (id: string, turnId: string, output: ChatTurnOutput) => void;
   setTurnWinner: (
     id: string,
     turnId: string,
-    winner: { outputId?: string | null; modelId: string; modelName: string }
+    winner: {
+      outcome: ArenaVoteOutcome | null;
+      ranking?: string[] | null;
+      outputId?: string | null;
+      modelId: string | null;
+      modelName: string | null;
+    }
   ) => void;
   setCurrentChat: (id: string | null) => void;
   clearHistory: () => void;
+  // Merges chats read from an export, de-duplicated by id.
+  importChats: (entries: ChatHistoryEntry[]) => Omit<ChatImportResult, "history">;
+  quarantinedChats: QuarantinedChat[];
+  clearQuarantine: () => void;
+  // False until the stored history has been read; the list starts empty until then.
+  isHistoryLoaded: boolean;
+  storageUsage: ChatStorageUsage;
 }
 
 const ChatHistoryContext = createContext<ChatHistoryContextValue | undefined>(undefined);
 
 const HISTORY_STORAGE_KEY = "prompt-race-chat-history";
 const CURRENT_CHAT_STORAGE_KEY = "prompt-race-chat-current";
+// Stored chats that failed validation, kept apart instead of being discarded.
+const QUARANTINE_STORAGE_KEY = "prompt-race-chat-quarantine";
+// History clear that still has to be applied to that account's synced copy.
+const CLEARED_AT_STORAGE_KEY = "prompt-race-chat-cleared-at";
+const SYNC_DEBOUNCE_MS = 1500;
+// Chats removed from this device to free space, with the version they had, so
+// sync does not download them again unless they change elsewhere.
+const EVICTED_STORAGE_KEY = "prompt-race-chat-evicted";
+// Past these sizes the least recently opened chats are evicted from this device.
+const INDEXED_DB_BUDGET_BYTES = 50 * 1024 * 1024;
+const LOCAL_STORAGE_BUDGET_BYTES = 4 * 1024 * 1024;
+const STORAGE_WARNING_RATIO = 0.8;
+
+interface PendingClear {
+  userId: string;
+  clearedAt: string;
+}
 
 const readStorage = <T,>(key: string, fallback: T): T => {
   if (typeof window === "undefined") return fallback;
@@ -58,84 +144,127 @@ const readStorage = <T,>(key: string, fallback: T): T => {
   }
 };
 
-export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
-  const normalizeHistory = useCallback((entries: ChatHistoryEntry[]): ChatHistoryEntry[] => {
-    return entries.map(entry => {
-      const timestamp = entry?.timestamp ?? new Date().toISOString();
-      const updatedAt = entry?.updatedAt ?? timestamp;
-      let turns = Array.isArray(entry?.turns)
-        ? entry.turns.map(turn => ({
-            ...turn,
-            outputs: Array.isArray(turn.outputs) ? turn.outputs : [],
-            winnerOutputId:
-              typeof turn.winnerOutputId === "string" || turn.winnerOutputId === null
-                ? turn.winnerOutputId
-                : null,
-            winnerModelId:
-              typeof turn.winnerModelId === "string" || turn.winnerModelId === null
-                ? turn.winnerModelId
-                : null,
-            winnerModelName:
-              typeof turn.winnerModelName === "string" || turn.winnerModelName === null
-                ? turn.winnerModelName
-                : null,
-          }))
-        : [];
-
-      if (entry.winner && turns.length > 0) {
-        const lastIndex = turns.length - 1;
-        const lastTurn = turns[lastIndex];
-        if (!lastTurn.winnerModelName && !lastTurn.winnerOutputId) {
-          const normalizedWinner = entry.winner.trim().toLowerCase();
-          let matchedOutputId: string | null = null;
-          const outputs = Array.isArray(lastTurn.outputs) ? lastTurn.outputs : [];
-          if (normalizedWinner) {
-            const matched = outputs.find(output => {
-              const label = (output.modelName || output.modelId || "").trim().toLowerCase();
-              return label === normalizedWinner;
-            });
-            matchedOutputId = matched?.id ?? null;
-          }
+// Unreadable JSON is quarantined as the raw string rather than read as an empty history.
+const readStoredHistory = (): LoadedChatHistory => {
+  if (typeof window === "undefined") return { entries: [], quarantined: [] };
+  const raw = window.localStorage.getItem(HISTORY_STORAGE_KEY);
+  if (!raw) return { entries: [], quarantined: [] };
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return { entries: [], quarantined: [quarantineChat(raw, "Histórico com JSON inválido.")] };
+  }
+  return loadChatHistory(stored);
+};
 
-          turns = turns.map((turn, index) =>
-            index === lastIndex
-              ? {
-                  ...turn,
-                  winnerOutputId: matchedOutputId,
-                  winnerModelId:
-                    matchedOutputId && outputs.length > 0
-                      ? outputs.find(output => output.id === matchedOutputId)?.modelId ?? null
-                      : turn.winnerModelId ?? null,
-                  winnerModelName: entry.winner,
-                }
-              : turn
-          );
-        }
-      }
-      return {
-        id: entry.id,
-        prompt: entry.prompt ?? "",
-        timestamp,
-        updatedAt,
-        winner: entry.winner,
-        turns,
-      };
-    });
-  }, []);
+// Rows are keyed by (user_id, id): an imported export keeps the ids of whoever exported it.
+const toChatRow = (userId: string, entry: ChatHistoryEntry) => ({
+  user_id: userId,
+  id: entry.id,
+  prompt: entry.prompt,
+  winner: entry.winner ?? null,
+  tags: entry.tags ?? [],
+  pinned: entry.pinned ?? false,
+  created_at: entry.timestamp,
+  updated_at: entry.updatedAt,
+  deleted_at: null,
+});
+
+const toTurnRows = (userId: string, entry: ChatHistoryEntry) =>
+  entry.turns.map((turn, position) => ({
+    user_id: userId,
+    chat_id: entry.id,
+    id: turn.id,
+    position,
+    turn: turn as unknown as Json,
+  }));
 
-  const [history, setHistory] = useState<ChatHistoryEntry[]>(() => {
-    const stored = readStorage<ChatHistoryEntry[]>(HISTORY_STORAGE_KEY, []);
-    return normalizeHistory(stored);
-  });
+const getOwnerId = (entry: ChatHistoryEntry) => entry.ownerId ?? null;
+
+// Returned unvalidated: remote rows go through the same schema as local storage.
+const fromChatRows = (chat: Tables<"chats">, turns: Tables<"chat_turns">[]) => ({
+  id: chat.id,
+  prompt: chat.prompt,
+  timestamp: chat.created_at,
+  updatedAt: chat.updated_at,
+  winner: chat.winner ?? undefined,
+  tags: chat.tags,
+  pinned: chat.pinned,
+  turns: turns
+    .filter(row => row.chat_id === chat.id)
+    .sort((a, b) => a.position - b.position)
+    .map(row => row.turn),
+});
+
+export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
+  const [history, setHistory] = useState<ChatHistoryEntry[]>([]);
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
+  const [quarantinedChats, setQuarantinedChats] = useState<QuarantinedChat[]>(() =>
+    readStorage<QuarantinedChat[]>(QUARANTINE_STORAGE_KEY, [])
+  );
   const [currentChatId, setCurrentChatId] = useState<string | null>(() =>
     readStorage<string | null>(CURRENT_CHAT_STORAGE_KEY, null)
   );
+  const [storageUsage, setStorageUsage] = useState<ChatStorageUsage>(() => ({
+    backend: isIndexedDbAvailable() ? "indexedDB" : "localStorage",
+    chatBytes: 0,
+    budgetBytes: isIndexedDbAvailable() ? INDEXED_DB_BUDGET_BYTES : LOCAL_STORAGE_BUDGET_BYTES,
+    usageBytes: null,
+    quotaBytes: null,
+    isNearQuota: false,
+  }));
+
+  const dbRef = useRef<IDBDatabase | null>(null);
+  // Last version written per chat (null for records that failed to load), so
+  // only the chats that changed are rewritten.
+  const persistedRef = useRef(new Map<string, ChatHistoryEntry | null>());
+  const usageRef = useRef(new Map<string, ChatRecordUsage>());
+  const evictedRef = useRef<Record<string, string>>(readStorage<Record<string, string>>(EVICTED_STORAGE_KEY, {}));
+  const currentChatIdRef = useRef(currentChatId);
+  const hasWarnedQuotaRef = useRef(false);
+
+  useEffect(() => {
+    currentChatIdRef.current = currentChatId;
+  }, [currentChatId]);
 
   useEffect(() => {
     if (typeof window === "undefined") return;
-    window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+    if (quarantinedChats.length > 0) {
+      window.localStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify(quarantinedChats));
+    } else {
+      window.localStorage.removeItem(QUARANTINE_STORAGE_KEY);
+    }
+  }, [quarantinedChats]);
+
+  const { user, isAuthLoaded } = useAuth();
+  // Anonymous voter sessions do not sync; their chats stay on this device like signed-out ones.
+  const userId = user && !user.is_anonymous ? user.id : null;
+  const historyRef = useRef(history);
+  const pendingClearRef = useRef<PendingClear | null>(readStorage<PendingClear | null>(CLEARED_AT_STORAGE_KEY, null));
+  const syncInFlightRef = useRef(false);
+  const syncQueuedRef = useRef(false);
+
+  useEffect(() => {
+    historyRef.current = history;
   }, [history]);
 
+  const setPendingClear = useCallback((pendingClear: PendingClear | null) => {
+    pendingClearRef.current = pendingClear;
+    if (typeof window === "undefined") return;
+    if (pendingClear) {
+      window.localStorage.setItem(CLEARED_AT_STORAGE_KEY, JSON.stringify(pendingClear));
+    } else {
+      window.localStorage.removeItem(CLEARED_AT_STORAGE_KEY);
+    }
+  }, []);
+
+  const setEvicted = useCallback((evicted: Record<string, string>) => {
+    evictedRef.current = evicted;
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem(EVICTED_STORAGE_KEY, JSON.stringify(evicted));
+  }, []);
+
   useEffect(() => {
     if (typeof window === "undefined") return;
     if (currentChatId) {
@@ -153,6 +282,295 @@ export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
     });
   }, []);
 
+  const refreshStorageUsage = useCallback(async () => {
+    const chatBytes = Array.from(usageRef.current.values()).reduce((sum, usage) => sum + usage.sizeBytes, 0);
+    const budgetBytes = dbRef.current ? INDEXED_DB_BUDGET_BYTES : LOCAL_STORAGE_BUDGET_BYTES;
+    let usageBytes: number | null = null;
+    let quotaBytes: number | null = null;
+    try {
+      const estimate = await navigator.storage?.estimate?.();
+      usageBytes = estimate?.usage ?? null;
+      quotaBytes = estimate?.quota ?? null;
+    } catch {
+      // Not every browser exposes the estimate; the chat budget still applies.
+    }
+    const isNearQuota =
+      chatBytes >= budgetBytes * STORAGE_WARNING_RATIO ||
+      (usageBytes !== null && Boolean(quotaBytes) && usageBytes / quotaBytes >= STORAGE_WARNING_RATIO);
+    setStorageUsage({
+      backend: dbRef.current ? "indexedDB" : "localStorage",
+      chatBytes,
+      budgetBytes,
+      usageBytes,
+      quotaBytes,
+      isNearQuota,
+    });
+    if (isNearQuota && !hasWarnedQuotaRef.current) {
+      hasWarnedQuotaRef.current = true;
+      toast({
+        title: "Armazenamento quase cheio",
+        description: "O histórico de chats está perto do limite deste navegador. Chats antigos serão removidos deste dispositivo.",
+      });
+    }
+  }, []);
+
+  // IndexedDB holds one record per chat. Without it (or on its first run) the
+  // localStorage copy is read instead; a successful IndexedDB write removes it.
+  useEffect(() => {
+    let cancelled = false;
+    const loadHistory = async () => {
+      let loaded = readStoredHistory();
+      const loadedRecords: ChatRecord[] = [];
+      if (isIndexedDbAvailable()) {
+        try {
+          const db = await openChatHistoryDb();
+          const records = await readChatRecords(db);
+          dbRef.current = db;
+          if (records.length > 0) {
+            loaded = loadChatRecords(records);
+            loadedRecords.push(...records);
+          }
+        } catch (error) {
+          console.error("Error opening chat history database:", error);
+        }
+      }
+      if (cancelled) return;
+
+      const lastAccessedById = new Map(loadedRecords.map(record => [record.id, record.lastAccessedAt]));
+      loadedRecords.forEach(record => persistedRef.current.set(record.id, null));
+      loaded.entries.forEach(entry => {
+        if (lastAccessedById.has(entry.id)) persistedRef.current.set(entry.id, entry);
+        usageRef.current.set(entry.id, {
+          id: entry.id,
+          sizeBytes: measureChatSize(entry),
+          lastAccessedAt: lastAccessedById.get(entry.id) ?? entry.updatedAt,
+        });
+      });
+      // Chats started while loading are kept alongside the stored ones.
+      setHistory(prev =>
+        sortHistory([...prev, ...loaded.entries.filter(entry => !prev.some(current => current.id === entry.id))])
+      );
+      if (loaded.quarantined.length > 0) {
+        setQuarantinedChats(prev => [...prev, ...loaded.quarantined]);
+      }
+      setIsHistoryLoaded(true);
+      void refreshStorageUsage();
+    };
+    void loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [sortHistory, refreshStorageUsage]);
+
+  const persistHistory = useCallback(
+    async (entries: ChatHistoryEntry[], changed: ChatHistoryEntry[], removedIds: string[]) => {
+      removedIds.forEach(id => usageRef.current.delete(id));
+      changed.forEach(entry => {
+        const previous = usageRef.current.get(entry.id)?.lastAccessedAt;
+        usageRef.current.set(entry.id, {
+          id: entry.id,
+          sizeBytes: measureChatSize(entry),
+          lastAccessedAt: previous && previous > entry.updatedAt ? previous : entry.updatedAt,
+        });
+      });
+
+      const db = dbRef.current;
+      const evictedIds = pickEvictions(
+        Array.from(usageRef.current.values()),
+        db ? INDEXED_DB_BUDGET_BYTES : LOCAL_STORAGE_BUDGET_BYTES,
+        currentChatIdRef.current ? [currentChatIdRef.current] : []
+      );
+      try {
+        if (db) {
+          const puts = changed
+            .filter(entry => !evictedIds.includes(entry.id))
+            .map(entry => toChatRecord(entry, usageRef.current.get(entry.id)));
+          await writeChatRecords(db, puts, [...removedIds, ...evictedIds]);
+          window.localStorage.removeItem(HISTORY_STORAGE_KEY);
+        } else {
+          const kept = entries.filter(entry => !evictedIds.includes(entry.id));
+          window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(toStoredChatHistory(kept)));
+        }
+      } catch (error) {
+        console.error("Error saving chat history:", error);
+        toast({
+          title: "Erro ao salvar histórico",
+          description: "O armazenamento do navegador está cheio ou indisponível. Limpe o histórico para continuar salvando chats.",
+          variant: "destructive",
+        });
+      }
+
+      if (evictedIds.length > 0) {
+        const evicted = { ...evictedRef.current };
+        evictedIds.forEach(id => {
+          const entry = entries.find(current => current.id === id);
+          if (entry) evicted[id] = entry.updatedAt;
+          usageRef.current.delete(id);
+          persistedRef.current.delete(id);
+        });
+        setEvicted(evicted);
+        setHistory(prev => prev.filter(entry => !evictedIds.includes(entry.id)));
+        toast({
+          title: "Chats antigos removidos",
+          description: `${evictedIds.length} chat(s) abertos há mais tempo foram removidos deste dispositivo para liberar espaço.`,
+        });
+      }
+      await refreshStorageUsage();
+    },
+    [refreshStorageUsage, setEvicted]
+  );
+
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    const persisted = persistedRef.current;
+    const changed = history.filter(entry => persisted.get(entry.id) !== entry);
+    const liveIds = new Set(history.map(entry => entry.id));
+    const removedIds = Array.from(persisted.keys()).filter(id => !liveIds.has(id));
+    if (changed.length === 0 && removedIds.length === 0) return;
+    persistedRef.current = new Map(history.map(entry => [entry.id, entry]));
+    void persistHistory(history, changed, removedIds);
+  }, [history, isHistoryLoaded, persistHistory]);
+
+  // Opening a chat refreshes its place in the eviction order.
+  const setCurrentChat = useCallback((id: string | null) => {
+    setCurrentChatId(id);
+    const usage = id ? usageRef.current.get(id) : undefined;
+    if (!usage) return;
+    usage.lastAccessedAt = new Date().toISOString();
+    const entry = persistedRef.current.get(usage.id);
+    if (dbRef.current && entry) {
+      writeChatRecords(dbRef.current, [toChatRecord(entry, usage)]).catch(error =>
+        console.error("Error saving chat history:", error)
+      );
+    }
+  }, []);
+
+  // Offline-first: the local copy stays the source the UI reads, and a signed-in
+  // user's chats are reconciled with the `chats`/`chat_turns` tables in the
+  // background. Failures are logged and retried on the next change or reconnect.
+  // Only chats owned by that account are pushed, so a shared browser never
+  // copies another account's (or an anonymous session's) chats into it.
+  const syncHistory = useCallback(async () => {
+    if (!userId || !isHistoryLoaded) return;
+    if (syncInFlightRef.current) {
+      syncQueuedRef.current = true;
+      return;
+    }
+    syncInFlightRef.current = true;
+    try {
+      const { data: versions, error } = await supabase.from("chats").select("id, updated_at, deleted_at");
+      if (error) throw error;
+
+      const remoteIds = new Set((versions ?? []).map(row => row.id));
+      // Chats stored before owners were recorded belong to the account that already has them.
+      const adoptedIds = historyRef.current
+        .filter(entry => entry.ownerId === undefined && remoteIds.has(entry.id))
+        .map(entry => entry.id);
+      if (adoptedIds.length > 0) {
+        setHistory(prev =>
+          prev.map(entry => (adoptedIds.includes(entry.id) ? { ...entry, ownerId: userId } : entry))
+        );
+      }
+      const local = historyRef.current.filter(
+        entry => getOwnerId(entry) === userId || adoptedIds.includes(entry.id)
+      );
+      const clearedAt = pendingClearRef.current?.userId === userId ? pendingClearRef.current.clearedAt : null;
+      // Chats evicted from this device count as known, so they are only downloaded again if they changed.
+      const evictedVersions = Object.entries(evictedRef.current)
+        .filter(([id]) => !local.some(entry => entry.id === id))
+        .map(([id, updatedAt]) => ({ id, updatedAt }));
+      const plan = planChatSync(
+        [...local, ...evictedVersions],
+        (versions ?? []).map(row => ({ id: row.id, updatedAt: row.updated_at, deletedAt: row.deleted_at })),
+        clearedAt
+      );
+
+      if (clearedAt) {
+        const { error: clearError } = await supabase
+          .from("chats")
+          .update({ deleted_at: clearedAt, updated_at: clearedAt })
+          .is("deleted_at", null)
+          .lte("updated_at", clearedAt);
+        if (clearError) throw clearError;
+        if (plan.remove.length > 0) {
+          const { error: turnsError } = await supabase.from("chat_turns").delete().in("chat_id", plan.remove);
+          if (turnsError) throw turnsError;
+        }
+        setPendingClear(null);
+      }
+
+      const pushed = local.filter(entry => plan.push.includes(entry.id));
+      if (pushed.length > 0) {
+        const { error: chatsError } = await supabase
+          .from("chats")
+          .upsert(pushed.map(entry => toChatRow(userId, entry)), { onConflict: "user_id,id" });
+        if (chatsError) throw chatsError;
+        const turnRows = pushed.flatMap(entry => toTurnRows(userId, entry));
+        if (turnRows.length > 0) {
+          const { error: turnsError } = await supabase
+            .from("chat_turns")
+            .upsert(turnRows, { onConflict: "user_id,chat_id,id" });
+          if (turnsError) throw turnsError;
+        }
+      }
+
+      let pulled: ChatHistoryEntry[] = [];
+      if (plan.pull.length > 0) {
+        const [chatsResult, turnsResult] = await Promise.all([
+          supabase.from("chats").select("*").in("id", plan.pull),
+          supabase.from("chat_turns").select("*").in("chat_id", plan.pull),
+        ]);
+        if (chatsResult.error) throw chatsResult.error;
+        if (turnsResult.error) throw turnsResult.error;
+        const validated = validateChatEntries(
+          (chatsResult.data ?? []).map(chat => fromChatRows(chat, turnsResult.data ?? []))
+        );
+        // A chat id held locally by another owner is left alone rather than overwritten.
+        const otherOwnerIds = new Set(
+          historyRef.current
+            .filter(entry => getOwnerId(entry) !== userId && !adoptedIds.includes(entry.id))
+            .map(entry => entry.id)
+        );
+        pulled = validated.entries
+          .filter(entry => !otherOwnerIds.has(entry.id))
+          .map(entry => ({ ...entry, ownerId: userId }));
+        if (pulled.some(entry => entry.id in evictedRef.current)) {
+          const evicted = { ...evictedRef.current };
+          pulled.forEach(entry => delete evicted[entry.id]);
+          setEvicted(evicted);
+        }
+        if (validated.quarantined.length > 0) {
+          setQuarantinedChats(prev => [...prev, ...validated.quarantined]);
+        }
+      }
+
+      if (pulled.length > 0 || plan.drop.length > 0) {
+        setHistory(prev => sortHistory(mergeRemoteChats(prev, pulled, plan.drop)));
+        setCurrentChatId(prev => (prev && plan.drop.includes(prev) ? null : prev));
+      }
+    } catch (error) {
+      console.error("Error syncing chat history:", error);
+    } finally {
+      syncInFlightRef.current = false;
+      if (syncQueuedRef.current) {
+        syncQueuedRef.current = false;
+        void syncHistory();
+      }
+    }
+  }, [userId, isHistoryLoaded, sortHistory, setPendingClear, setEvicted]);
+
+  useEffect(() => {
+    if (!userId || !isHistoryLoaded) return;
+    const timer = window.setTimeout(() => void syncHistory(), SYNC_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [history, userId, isHistoryLoaded, syncHistory]);
+
+  useEffect(() => {
+    const handleOnline = () => void syncHistory();
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [syncHistory]);
+
   const addChat = useCallback<ChatHistoryContextValue["addChat"]>((prompt) => {
     const id =
       (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function"
@@ -166,17 +584,18 @@ export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
       timestamp,
       updatedAt: timestamp,
       winner: undefined,
+      ownerId: userId,
       turns: [],
     };
 
     setHistory((prev) => sortHistory([entry, ...prev]));
     setCurrentChatId(id);
     return id;
-  }, [sortHistory]);
+  }, [sortHistory, userId]);
 
   const updateChat = useCallback<ChatHistoryContextValue["updateChat"]>((id, updates) => {
     const resolvedUpdates = { ...updates } as Partial<ChatHistoryEntry>;
-    if (updates.prompt || updates.winner) {
+    if (updates.prompt || updates.winner || updates.tags || updates.pinned !== undefined) {
       resolvedUpdates.updatedAt = new Date().toISOString();
     }
     setHistory((prev) => {
@@ -194,13 +613,17 @@ export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
       winnerOutputId: turn.winnerOutputId ?? null,
       winnerModelId: turn.winnerModelId ?? null,
       winnerModelName: turn.winnerModelName ?? null,
+      outcome: turn.outcome ?? null,
+      ranking: turn.ranking ?? null,
+      displayOrder: turn.displayOrder ?? null,
     };
     setHistory(prev => {
       const next = prev.map(entry => {
         if (entry.id !== id) return entry;
         return {
           ...entry,
-          prompt: turn.prompt,
+          // The first prompt names the chat; follow-ups only bump its position.
+          prompt: entry.turns.length > 0 ? entry.prompt : turn.prompt,
           updatedAt: turn.timestamp,
           turns: [...entry.turns, storedTurn],
         };
@@ -209,6 +632,28 @@ export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
     });
   }, [sortHistory]);
 
+  const updateTurnOutput = useCallback<ChatHistoryContextValue["updateTurnOutput"]>((id, turnId, output) => {
+    // Bumping updatedAt lets the retried output win over older synced copies.
+    const updatedAt = new Date().toISOString();
+    setHistory(prev =>
+      prev.map(entry => {
+        if (entry.id !== id) return entry;
+        return {
+          ...entry,
+          updatedAt,
+          turns: entry.turns.map(turn =>
+            turn.id === turnId
+              ? {
+                  ...turn,
+                  outputs: turn.outputs.map(current => (current.id === output.id ? { ...output } : current)),
+                }
+              : turn
+          ),
+        };
+      })
+    );
+  }, []);
+
   const setTurnWinner = useCallback<ChatHistoryContextValue["setTurnWinner"]>((id, turnId, winner) => {
     const updatedAt = new Date().toISOString();
     setHistory(prev => {
@@ -223,6 +668,8 @@ export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
             winnerOutputId: winner.outputId ?? null,
             winnerModelId: winner.modelId,
             winnerModelName: winner.modelName,
+            outcome: winner.outcome,
+            ranking: winner.ranking ?? null,
           };
         });
         if (!turnUpdated) {
@@ -231,7 +678,7 @@ export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
         return {
           ...entry,
           turns,
-          winner: winner.modelName,
+          winner: winner.modelName ?? entry.winner,
           updatedAt,
         };
       });
@@ -239,23 +686,84 @@ export const ChatHistoryProvider = ({ children }: { children: ReactNode }) => {
     });
   }, [sortHistory]);
 
+  // Clears the current owner's chats only. Synced chats are tombstoned on the
+  // next sync, so other devices drop them too.
   const clearHistory = useCallback(() => {
-    setHistory([]);
+    if (userId) {
+      setPendingClear({ userId, clearedAt: new Date().toISOString() });
+    }
+    setEvicted({});
+    setHistory(prev => prev.filter(entry => getOwnerId(entry) !== userId));
     setCurrentChatId(null);
+  }, [userId, setPendingClear, setEvicted]);
+
+  // Imported chats belong to the current owner; an id held by another owner is skipped.
+  const importChats = useCallback<ChatHistoryContextValue["importChats"]>((imported) => {
+    const otherOwnerIds = new Set(
+      historyRef.current.filter(entry => getOwnerId(entry) !== userId).map(entry => entry.id)
+    );
+    const entries = imported
+      .filter(entry => !otherOwnerIds.has(entry.id))
+      .map(entry => ({ ...entry, ownerId: userId }));
+    const merged = mergeImportedChats(historyRef.current, entries);
+    const { added, updated } = merged;
+    const skipped = merged.skipped + imported.length - entries.length;
+    if (added + updated === 0) return { added, updated, skipped };
+    setHistory(prev => sortHistory(mergeImportedChats(prev, entries).history));
+    // An imported copy of an evicted chat makes it local again.
+    if (entries.some(entry => entry.id in evictedRef.current)) {
+      const evicted = { ...evictedRef.current };
+      entries.forEach(entry => delete evicted[entry.id]);
+      setEvicted(evicted);
+    }
+    return { added, updated, skipped };
+  }, [userId, sortHistory, setEvicted]);
+
+  const clearQuarantine = useCallback(() => {
+    setQuarantinedChats([]);
   }, []);
 
+  // Other owners' chats stay on this device but are not listed. The list waits
+  // for auth so a signed-in user never sees the signed-out chats first.
+  const ownedHistory = useMemo(
+    () => (isAuthLoaded ? history.filter(entry => getOwnerId(entry) === userId) : []),
+    [history, isAuthLoaded, userId]
+  );
+  const isOwnedHistoryLoaded = isHistoryLoaded && isAuthLoaded;
+
   const value = useMemo<ChatHistoryContextValue>(
     () => ({
-      history,
+      history: ownedHistory,
       currentChatId,
       addChat,
       updateChat,
       appendTurn,
+      updateTurnOutput,
       setTurnWinner,
-      setCurrentChat: setCurrentChatId,
+      setCurrentChat,
       clearHistory,
+      importChats,
+      quarantinedChats,
+      clearQuarantine,
+      isHistoryLoaded: isOwnedHistoryLoaded,
+      storageUsage,
     }),
-    [history, currentChatId, addChat, updateChat, appendTurn, setTurnWinner, clearHistory]
+    [
+      ownedHistory,
+      currentChatId,
+      addChat,
+      updateChat,
+      appendTurn,
+      updateTurnOutput,
+      setTurnWinner,
+      setCurrentChat,
+      clearHistory,
+      importChats,
+      quarantinedChats,
+      clearQuarantine,
+      isOwnedHistoryLoaded,
+      storageUsage,
+    ]
   );
 
   return <ChatHistoryContext.Provider value={value}>{children}</ChatHistoryContext.Provider>;
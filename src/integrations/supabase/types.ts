@@ -16,63 +16,171 @@ export type Database = {
     Tables: {
       arena_responses: {
         Row: {
+          battle_id: string | null
           created_at: string | null
+          error: string | null
+          extracted_answer: string | null
+          gold_answer: string | null
           id: string
+          is_correct: boolean | null
           model_id: string
           prompt: string
           response: string
           response_time: number | null
+          side: string | null
           tokens_used: number | null
+          user_id: string | null
         }
         Insert: {
+          battle_id?: string | null
           created_at?: string | null
+          error?: string | null
+          extracted_answer?: string | null
+          gold_answer?: string | null
           id?: string
+          is_correct?: boolean | null
           model_id: string
           prompt: string
           response: string
           response_time?: number | null
+          side?: string | null
           tokens_used?: number | null
+          user_id?: string | null
         }
         Update: {
+          battle_id?: string | null
           created_at?: string | null
+          error?: string | null
+          extracted_answer?: string | null
+          gold_answer?: string | null
           id?: string
+          is_correct?: boolean | null
           model_id?: string
           prompt?: string
           response?: string
           response_time?: number | null
+          side?: string | null
           tokens_used?: number | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      arena_vote_ip_hits: {
+        Row: {
+          created_at: string
+          id: string
+          ip_hash: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ip_hash: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ip_hash?: string
         }
         Relationships: []
       }
       arena_votes: {
         Row: {
+          battle_id: string | null
           created_at: string | null
+          display_order: string[] | null
+          flag: string | null
+          gold_answer: string | null
           id: string
+          judge_model: string | null
+          model_a_checkpoint: string | null
+          model_a_correct: boolean | null
+          model_a_family: string | null
           model_a_id: string
+          model_a_task: string | null
+          model_a_technique: string | null
+          model_b_checkpoint: string | null
+          model_b_correct: boolean | null
+          model_b_family: string | null
           model_b_id: string
+          model_b_task: string | null
+          model_b_technique: string | null
+          outcome: string | null
+          participants: string[] | null
           prompt: string
+          ranking: string[] | null
+          source: string
+          source_battle_id: string | null
           task: string | null
+          task_source: string | null
           technique: string | null
+          user_id: string | null
+          vote_type: string
           winner_model_id: string | null
         }
         Insert: {
+          battle_id?: string | null
           created_at?: string | null
+          display_order?: string[] | null
+          flag?: string | null
+          gold_answer?: string | null
           id?: string
+          judge_model?: string | null
+          model_a_checkpoint?: string | null
+          model_a_correct?: boolean | null
+          model_a_family?: string | null
           model_a_id: string
+          model_a_task?: string | null
+          model_a_technique?: string | null
+          model_b_checkpoint?: string | null
+          model_b_correct?: boolean | null
+          model_b_family?: string | null
           model_b_id: string
+          model_b_task?: string | null
+          model_b_technique?: string | null
+          outcome?: string | null
+          participants?: string[] | null
           prompt: string
+          ranking?: string[] | null
+          source?: string
+          source_battle_id?: string | null
           task?: string | null
+          task_source?: string | null
           technique?: string | null
+          user_id?: string | null
+          vote_type?: string
           winner_model_id?: string | null
         }
         Update: {
+          battle_id?: string | null
           created_at?: string | null
+          display_order?: string[] | null
+          flag?: string | null
+          gold_answer?: string | null
           id?: string
+          judge_model?: string | null
+          model_a_checkpoint?: string | null
+          model_a_correct?: boolean | null
+          model_a_family?: string | null
           model_a_id?: string
+          model_a_task?: string | null
+          model_a_technique?: string | null
+          model_b_checkpoint?: string | null
+          model_b_correct?: boolean | null
+          model_b_family?: string | null
           model_b_id?: string
+          model_b_task?: string | null
+          model_b_technique?: string | null
+          outcome?: string | null
+          participants?: string[] | null
           prompt?: string
+          ranking?: string[] | null
+          source?: string
+          source_battle_id?: string | null
           task?: string | null
+          task_source?: string | null
           technique?: string | null
+          user_id?: string | null
+          vote_type?: string
           winner_model_id?: string | null
         }
         Relationships: []
@@ -107,6 +215,77 @@ export type Database = {
         }
         Relationships: []
       }
+      chat_turns: {
+        Row: {
+          chat_id: string
+          created_at: string
+          id: string
+          position: number
+          turn: Json
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string
+          id: string
+          position: number
+          turn: Json
+          user_id?: string
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          turn?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_turns_chat_id_fkey"
+            columns: ["user_id", "chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["user_id", "id"]
+          },
+        ]
+      }
+      chats: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          id: string
+          pinned: boolean
+          prompt: string
+          tags: string[]
+          updated_at: string
+          user_id: string
+          winner: string | null
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          id: string
+          pinned?: boolean
+          prompt?: string
+          tags?: string[]
+          updated_at?: string
+          user_id?: string
+          winner?: string | null
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          id?: string
+          pinned?: boolean
+          prompt?: string
+          tags?: string[]
+          updated_at?: string
+          user_id?: string
+          winner?: string | null
+        }
+        Relationships: []
+      }
       leaderboard_results: {
         Row: {
           created_at: string | null
@@ -164,15 +343,50 @@ export type Database = {
         }
         Relationships: []
       }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      arena_vote_shown_side: {
+        Args: {
+          _display_order: string[]
+          _participants: string[]
+          _winner_model_id: string
+        }
+        Returns: string
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -299,6 +513,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin"],
+    },
   },
 } as const
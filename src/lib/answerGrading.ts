@@ -0,0 +1,168 @@
+export type AnswerKind = "numeric" | "mcq" | "entailment";
+
+export type EntailmentLabel = "entailment" | "neutral" | "contradiction";
+
+export interface AnswerGrade {
+  kind: AnswerKind;
+  expected: string;
+  extracted: string | null;
+  // null when nothing could be extracted from the response.
+  correct: boolean | null;
+}
+
+// Slack for floating point when comparing against the gold answer's precision.
+const NUMERIC_EPSILON = 1e-9;
+
+// Only explicit answer markers: connectives like "portanto" also show up mid-reasoning.
+const FINAL_ANSWER_CUE =
+  /(?<!\p{L})(?:(?:resposta\s+final|final\s+answer)(?!\p{L})\s*[:=]?|(?:resposta|answer)\s*[:=])/giu;
+const NUMBER_PATTERN = /-?\d{1,3}(?:\.\d{3})+(?:,\d+)?|-?\d+(?:[.,]\d+)?/g;
+const MCQ_PATTERNS = [
+  /(?:letra|alternativa|opção|option)\s*\(?([A-E])\)?(?![A-Za-z])/gi,
+  /\(([A-E])\)/g,
+  /(?:^|\s)([A-E])\)/gm,
+];
+const ENTAILMENT_PATTERNS: Array<[EntailmentLabel, RegExp]> = [
+  ["contradiction", /contradi(?:z|ção|cao|ction|tória|toria)/gi],
+  ["entailment", /implica(?:ção|cao)?|acarreta|entailment/gi],
+  ["neutral", /neutr[oa]|neutral/gi],
+];
+
+const stripReasoning = (text: string) => text.replace(/<think>[\s\S]*?(?:<\/think>|$)/gi, " ");
+
+// Grades the part after the last "resposta final"-style cue when there is one.
+const getAnswerRegion = (text: string) => {
+  const cleaned = stripReasoning(text);
+  let lastCueEnd = -1;
+  for (const match of cleaned.matchAll(FINAL_ANSWER_CUE)) {
+    lastCueEnd = (match.index ?? 0) + match[0].length;
+  }
+  return lastCueEnd >= 0 ? cleaned.slice(lastCueEnd) : cleaned;
+};
+
+// "1.234,56" and "1234,56" become "1234.56"; plain numbers pass through.
+const normalizeLocaleNumber = (value: string) =>
+  /^-?\d{1,3}(?:\.\d{3})+(?:,\d+)?$/.test(value)
+    ? value.replace(/\./g, "").replace(",", ".")
+    : value.replace(",", ".");
+
+/** Parses Brazilian ("1.234,56") and plain ("1234.56") number formats. */
+export const parseLocaleNumber = (raw: string): number | null => {
+  const value = raw.trim();
+  if (!value) return null;
+  const parsed = Number(normalizeLocaleNumber(value));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Half a unit in the gold answer's last digit, so "66,7" accepts 66,67 while
+ * integer answers (most of gsm8k) must match exactly.
+ */
+const getNumericTolerance = (goldAnswer: string) => {
+  const decimals = normalizeLocaleNumber(goldAnswer.trim()).split(".")[1]?.length ?? 0;
+  return decimals > 0 ? 0.5 * 10 ** -decimals : 0;
+};
+
+const extractNumeric = (text: string): string | null => {
+  const region = getAnswerRegion(text);
+  // Inside the answer region the first number is the answer; in the full text the last one is.
+  const matches = region.match(NUMBER_PATTERN) ?? [];
+  if (matches.length === 0) return null;
+  return region === stripReasoning(text) ? matches[matches.length - 1] : matches[0];
+};
+
+const extractMcq = (text: string): string | null => {
+  const region = getAnswerRegion(text);
+  for (const pattern of MCQ_PATTERNS) {
+    const matches = Array.from(region.matchAll(pattern));
+    if (matches.length > 0) {
+      return matches[matches.length - 1][1].toUpperCase();
+    }
+  }
+  const bare = region.trim().match(/^([A-E])(?![A-Za-z])/);
+  return bare ? bare[1] : null;
+};
+
+const extractEntailment = (text: string): EntailmentLabel | null => {
+  const region = getAnswerRegion(text);
+  let bestLabel: EntailmentLabel | null = null;
+  let bestIndex = -1;
+  for (const [label, pattern] of ENTAILMENT_PATTERNS) {
+    for (const match of region.matchAll(pattern)) {
+      const index = match.index ?? 0;
+      if (index > bestIndex) {
+        bestLabel = label;
+        bestIndex = index;
+      }
+    }
+  }
+  return bestLabel;
+};
+
+const normalizeEntailmentGold = (gold: string): EntailmentLabel | null => extractEntailment(gold);
+
+export const inferAnswerKind = (task: string | null | undefined, goldAnswer: string): AnswerKind => {
+  if (task === "esnli") return "entailment";
+  if (/^\(?[A-Ea-e]\)?$/.test(goldAnswer.trim())) return "mcq";
+  return "numeric";
+};
+
+export const extractAnswer = (text: string, kind: AnswerKind): string | null => {
+  if (!text) return null;
+  switch (kind) {
+    case "mcq":
+      return extractMcq(text);
+    case "entailment":
+      return extractEntailment(text);
+    case "numeric":
+    default:
+      return extractNumeric(text);
+  }
+};
+
+// Answer format of the tasks whose prompts have a single checkable answer.
+const TASK_ANSWER_KINDS: Partial<Record<string, AnswerKind>> = {
+  gsm8k: "numeric",
+  math_qa: "numeric",
+  aqua_rat: "mcq",
+  esnli: "entailment",
+};
+
+/** Final answer of a response for tasks with a known answer format, without needing a gold answer. */
+export const extractTaskAnswer = (text: string, task: string | null | undefined): string | null => {
+  const kind = task ? TASK_ANSWER_KINDS[task] : undefined;
+  return kind ? extractAnswer(text, kind) : null;
+};
+
+/**
+ * Auto-grades a model response against a known gold answer. The answer kind
+ * follows the task (esnli → entailment label) or the shape of the gold answer.
+ */
+export const gradeAnswer = (
+  responseText: string,
+  goldAnswer: string,
+  task?: string | null
+): AnswerGrade => {
+  const expected = goldAnswer.trim();
+  const kind = inferAnswerKind(task, expected);
+  const extracted = extractAnswer(responseText, kind);
+  if (extracted === null) {
+    return { kind, expected, extracted, correct: null };
+  }
+
+  let correct: boolean;
+  if (kind === "numeric") {
+    const expectedValue = parseLocaleNumber(expected);
+    const extractedValue = parseLocaleNumber(extracted);
+    if (expectedValue === null || extractedValue === null) {
+      correct = false;
+    } else {
+      correct = Math.abs(expectedValue - extractedValue) <= getNumericTolerance(expected) + NUMERIC_EPSILON;
+    }
+  } else if (kind === "mcq") {
+    correct = extracted === expected.replace(/[()]/g, "").toUpperCase();
+  } else {
+    correct = extracted === normalizeEntailmentGold(expected);
+  }
+  return { kind, expected, extracted, correct };
+};
@@ -0,0 +1,83 @@
+import { parseAliasId } from "@/lib/modelAliases";
+import type { ArenaVoteType } from "@/lib/rating";
+
+export type ArenaVoteSource = "human" | "judge";
+
+export const ARENA_VOTE_SOURCE_LABELS: Record<ArenaVoteSource, string> = {
+  human: "Votos humanos",
+  judge: "Juiz automático",
+};
+
+export type MultiwayVoteType = Exclude<ArenaVoteType, "pairwise">;
+
+export const MULTIWAY_VOTE_TYPE_LABELS: Record<MultiwayVoteType, string> = {
+  best_of_n: "Melhor resposta",
+  ranked: "Ranking completo",
+};
+
+// Battle ids are stored in uuid columns, so the fallback keeps the v4 shape.
+export const createBattleId = (): string => {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return "xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx".replace(/[xy]/g, char => {
+    const random = Math.floor(Math.random() * 16);
+    return (char === "x" ? random : (random & 0x3) | 0x8).toString(16);
+  });
+};
+
+// SQLSTATEs of rejected `arena_votes` inserts: a second vote on the same
+// battle, and the missing battle and rate limit raised by the `check_arena_vote` trigger.
+const UNIQUE_VIOLATION = "23505";
+const VOTE_BATTLE_NOT_FOUND = "P0404";
+const VOTE_RATE_LIMITED = "P0429";
+
+/**
+ * Toast copy for a vote insert the server refused, or null for other errors.
+ * A rate-limited vote can be cast again later; a duplicate one cannot.
+ */
+export const describeVoteInsertError = (error: { code?: string } | null | undefined) => {
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { title: "Voto já registrado", description: "Esta batalha já recebeu um voto.", canRetry: false };
+  }
+  if (error?.code === VOTE_BATTLE_NOT_FOUND) {
+    return {
+      title: "Batalha não encontrada",
+      description: "As respostas desta batalha não foram salvas, então ela não aceita votos.",
+      canRetry: false,
+    };
+  }
+  if (error?.code === VOTE_RATE_LIMITED) {
+    return {
+      title: "Muitos votos seguidos",
+      description: "Aguarde um minuto antes de votar novamente.",
+      canRetry: true,
+    };
+  }
+  return null;
+};
+
+export const BATTLE_SIZES = [2, 3, 4] as const;
+
+export type BattleSize = (typeof BATTLE_SIZES)[number];
+
+/**
+ * Per-side alias metadata for an `arena_votes` row. The shared `task` and
+ * `technique` columns are only filled when both sides agree.
+ */
+export const buildVoteMetadataColumns = (modelAId: string, modelBId: string) => {
+  const sideA = parseAliasId(modelAId);
+  const sideB = parseAliasId(modelBId);
+  return {
+    model_a_task: sideA?.task ?? null,
+    model_a_family: sideA?.family ?? null,
+    model_a_technique: sideA?.technique ?? null,
+    model_a_checkpoint: sideA?.checkpoint ?? null,
+    model_b_task: sideB?.task ?? null,
+    model_b_family: sideB?.family ?? null,
+    model_b_technique: sideB?.technique ?? null,
+    model_b_checkpoint: sideB?.checkpoint ?? null,
+    task: sideA && sideB && sideA.task === sideB.task ? sideA.task : null,
+    technique: sideA && sideB && sideA.technique === sideB.technique ? sideA.technique : null,
+  };
+};
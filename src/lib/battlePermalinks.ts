@@ -0,0 +1,50 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { MODEL_ALIAS_ENTRIES } from "@/lib/modelAliases";
+
+// `?blind=1` keeps model identities hidden so the link can collect new votes.
+export const BLIND_PERMALINK_PARAM = "blind";
+
+/** One side of a stored battle, rebuilt from its `arena_responses` rows. */
+export interface BattleOutputRecord {
+  side: string;
+  modelId: string;
+  modelName: string;
+  response: string;
+  responseTimeMs: number;
+  tokensUsed: number | null;
+  error: string | null;
+  isCorrect: boolean | null;
+  goldAnswer: string | null;
+}
+
+export const buildBattlePermalink = (origin: string, battleId: string, blind = false) =>
+  `${origin}/battle/${battleId}${blind ? `?${BLIND_PERMALINK_PARAM}=1` : ""}`;
+
+export const getAliasDisplayName = (modelId: string) =>
+  MODEL_ALIAS_ENTRIES.find(alias => alias.id === modelId)?.displayName ?? modelId.split("/").filter(Boolean).pop() ?? modelId;
+
+/**
+ * The outputs that were on screen when the battle was voted, in side order
+ * (model_a first); `arena_votes.display_order` has the left-to-right order.
+ * A retried side adds a new row, so only the latest row per side is kept.
+ */
+export const pickBattleOutputs = (rows: Tables<"arena_responses">[]): BattleOutputRecord[] => {
+  const latestBySide = new Map<string, Tables<"arena_responses">>();
+  [...rows]
+    .filter(row => row.side)
+    .sort((a, b) => (Date.parse(a.created_at ?? "") || 0) - (Date.parse(b.created_at ?? "") || 0))
+    .forEach(row => latestBySide.set(row.side, row));
+  return Array.from(latestBySide.values())
+    .sort((a, b) => a.side.localeCompare(b.side))
+    .map(row => ({
+      side: row.side,
+      modelId: row.model_id,
+      modelName: getAliasDisplayName(row.model_id),
+      response: row.response,
+      responseTimeMs: row.response_time ?? 0,
+      tokensUsed: row.tokens_used,
+      error: row.error,
+      isCorrect: row.is_correct,
+      goldAnswer: row.gold_answer,
+    }));
+};
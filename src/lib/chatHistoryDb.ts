@@ -0,0 +1,103 @@
+import type { ChatHistoryEntry } from "@/context/ChatHistoryContext";
+import { CHAT_HISTORY_VERSION, loadChatHistory } from "@/lib/chatHistoryStorage";
+import type { LoadedChatHistory } from "@/lib/chatHistoryStorage";
+
+/** One chat per IndexedDB record, stamped with the storage version it was written at. */
+export interface ChatRecord {
+  id: string;
+  version: number;
+  chat: unknown;
+  sizeBytes: number;
+  lastAccessedAt: string;
+}
+
+export interface ChatRecordUsage {
+  id: string;
+  sizeBytes: number;
+  lastAccessedAt: string;
+}
+
+const DB_NAME = "prompt-race";
+const DB_VERSION = 1;
+const CHATS_STORE = "chats";
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== "undefined";
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openChatHistoryDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHATS_STORE)) {
+        db.createObjectStore(CHATS_STORE, { keyPath: "id" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("O banco local do histórico está aberto em outra aba com uma versão antiga."));
+  });
+
+export const readChatRecords = (db: IDBDatabase) =>
+  requestToPromise<ChatRecord[]>(db.transaction(CHATS_STORE, "readonly").objectStore(CHATS_STORE).getAll());
+
+/** Writes and deletes in a single transaction, so a failed write leaves the store untouched. */
+export const writeChatRecords = (db: IDBDatabase, puts: ChatRecord[], deleteIds: string[] = []) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(CHATS_STORE, "readwrite");
+    const store = transaction.objectStore(CHATS_STORE);
+    puts.forEach(record => store.put(record));
+    deleteIds.forEach(id => store.delete(id));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("Gravação do histórico cancelada."));
+  });
+
+export const measureChatSize = (entry: ChatHistoryEntry) => new TextEncoder().encode(JSON.stringify(entry)).length;
+
+/**
+ * Least-recently-used chats to drop so the history fits in `budgetBytes`.
+ * Protected chats (the open one, ones just written) are never picked.
+ */
+export const pickEvictions = (usage: ChatRecordUsage[], budgetBytes: number, protectedIds: string[] = []): string[] => {
+  let total = usage.reduce((sum, record) => sum + record.sizeBytes, 0);
+  if (total <= budgetBytes) return [];
+  const evicted: string[] = [];
+  const candidates = usage
+    .filter(record => !protectedIds.includes(record.id))
+    .sort((a, b) => Date.parse(a.lastAccessedAt) - Date.parse(b.lastAccessedAt));
+  for (const record of candidates) {
+    if (total <= budgetBytes) break;
+    evicted.push(record.id);
+    total -= record.sizeBytes;
+  }
+  return evicted;
+};
+
+/** Groups records by the version they were written at and loads each group through its migrations. */
+export const loadChatRecords = (records: ChatRecord[]): LoadedChatHistory => {
+  const chatsByVersion = new Map<number, unknown[]>();
+  records.forEach(record => {
+    chatsByVersion.set(record.version, [...(chatsByVersion.get(record.version) ?? []), record.chat]);
+  });
+  const result: LoadedChatHistory = { entries: [], quarantined: [] };
+  chatsByVersion.forEach((chats, version) => {
+    const loaded = loadChatHistory({ version, chats });
+    result.entries.push(...loaded.entries);
+    result.quarantined.push(...loaded.quarantined);
+  });
+  return result;
+};
+
+export const toChatRecord = (entry: ChatHistoryEntry, usage: ChatRecordUsage): ChatRecord => ({
+  id: entry.id,
+  version: CHAT_HISTORY_VERSION,
+  chat: entry,
+  sizeBytes: usage.sizeBytes,
+  lastAccessedAt: usage.lastAccessedAt,
+});
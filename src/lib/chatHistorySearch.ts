@@ -0,0 +1,149 @@
+import type { ChatHistoryEntry, ChatTurn } from "@/context/ChatHistoryContext";
+import { stripThinkBlocks } from "@/lib/modelAliases";
+
+export type ChatVoteStatus = "all" | "voted" | "unvoted";
+
+export interface ChatHistoryFilters {
+  query: string;
+  // "all" disables the winner, task and tag filters.
+  winnerModelId: string;
+  task: string;
+  tag: string;
+  voteStatus: ChatVoteStatus;
+  // Inclusive calendar days (yyyy-mm-dd, local time) matched against the last update.
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface ChatHistoryFacets {
+  winners: { id: string; label: string }[];
+  tasks: string[];
+  tags: string[];
+}
+
+export const DEFAULT_CHAT_HISTORY_FILTERS: ChatHistoryFilters = {
+  query: "",
+  winnerModelId: "all",
+  task: "all",
+  tag: "all",
+  voteStatus: "all",
+  dateFrom: "",
+  dateTo: "",
+};
+
+export const CHAT_VOTE_STATUS_LABELS: Record<ChatVoteStatus, string> = {
+  all: "Todos",
+  voted: "Votados",
+  unvoted: "Sem voto",
+};
+
+const SNIPPET_RADIUS = 40;
+
+// Case- and accent-insensitive, so "acao" finds "ação".
+const normalizeText = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const countActiveFilters = (filters: ChatHistoryFilters) =>
+  [
+    filters.winnerModelId !== "all",
+    filters.task !== "all",
+    filters.tag !== "all",
+    filters.voteStatus !== "all",
+    Boolean(filters.dateFrom),
+    Boolean(filters.dateTo),
+  ].filter(Boolean).length;
+
+const isTurnVoted = (turn: ChatTurn) => Boolean(turn.outcome) || Boolean(turn.winnerOutputId);
+
+const isChatVoted = (entry: ChatHistoryEntry) => entry.turns.some(isTurnVoted);
+
+// Model names only become searchable once the turn is voted, as in blind mode.
+const getSearchableTexts = (entry: ChatHistoryEntry) => [
+  entry.prompt,
+  ...(entry.tags ?? []),
+  ...entry.turns.flatMap(turn => [
+    turn.prompt,
+    ...turn.outputs.flatMap(output => [
+      ...(isTurnVoted(turn) ? [output.modelName] : []),
+      stripThinkBlocks(output.response),
+    ]),
+  ]),
+];
+
+const toLocalDay = (iso: string) => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/** Winners, tasks and tags present in the history, for the filter selects. */
+export const collectChatFacets = (history: ChatHistoryEntry[]): ChatHistoryFacets => {
+  const winners = new Map<string, string>();
+  const tasks = new Set<string>();
+  const tags = new Set<string>();
+  history.forEach(entry => {
+    (entry.tags ?? []).forEach(tag => tags.add(tag));
+    entry.turns.forEach(turn => {
+      if (turn.task) tasks.add(turn.task);
+      if (turn.winnerModelId && !winners.has(turn.winnerModelId)) {
+        winners.set(turn.winnerModelId, turn.winnerModelName || turn.winnerModelId);
+      }
+    });
+  });
+  return {
+    winners: Array.from(winners, ([id, label]) => ({ id, label })).sort((a, b) => a.label.localeCompare(b.label)),
+    tasks: Array.from(tasks).sort(),
+    tags: Array.from(tags).sort(),
+  };
+};
+
+/**
+ * Chats matching every filter, pinned ones first. Each word of the query must
+ * appear somewhere in the chat: prompts, tags, model names or answers.
+ */
+export const filterChatHistory = (history: ChatHistoryEntry[], filters: ChatHistoryFilters): ChatHistoryEntry[] => {
+  const terms = normalizeText(filters.query).split(/\s+/).filter(Boolean);
+  const matches = history.filter(entry => {
+    if (filters.winnerModelId !== "all" && !entry.turns.some(turn => turn.winnerModelId === filters.winnerModelId)) {
+      return false;
+    }
+    if (filters.task !== "all" && !entry.turns.some(turn => turn.task === filters.task)) return false;
+    if (filters.tag !== "all" && !(entry.tags ?? []).includes(filters.tag)) return false;
+    if (filters.voteStatus !== "all" && isChatVoted(entry) !== (filters.voteStatus === "voted")) return false;
+    const day = toLocalDay(entry.updatedAt ?? entry.timestamp);
+    if (filters.dateFrom && day < filters.dateFrom) return false;
+    if (filters.dateTo && day > filters.dateTo) return false;
+    if (terms.length === 0) return true;
+    const haystack = normalizeText(getSearchableTexts(entry).join("\n"));
+    return terms.every(term => haystack.includes(term));
+  });
+  return [...matches.filter(entry => entry.pinned), ...matches.filter(entry => !entry.pinned)];
+};
+
+/**
+ * Excerpt around the first query word found outside the chat's title prompt,
+ * so a hit inside an answer is visible in the list. Null when the title matches.
+ */
+export const getChatMatchSnippet = (entry: ChatHistoryEntry, query: string): string | null => {
+  const [term] = normalizeText(query).split(/\s+/).filter(Boolean);
+  if (!term || normalizeText(entry.prompt).includes(term)) return null;
+  for (const text of getSearchableTexts(entry).slice(1)) {
+    // Stripping accents keeps one code unit per Latin letter, so positions in
+    // the normalized text line up with the NFC original.
+    const source = text.normalize("NFC");
+    const index = normalizeText(source).indexOf(term);
+    if (index === -1) continue;
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(source.length, index + term.length + SNIPPET_RADIUS);
+    const excerpt = source.slice(start, end).replace(/\s+/g, " ").trim();
+    return `${start > 0 ? "…" : ""}${excerpt}${end < source.length ? "…" : ""}`;
+  }
+  return null;
+};
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { CHAT_HISTORY_VERSION, loadChatHistory, toStoredChatHistory, validateChatEntries } from "@/lib/chatHistoryStorage";
+
+const buildOutput = (id: string, modelName: string) => ({
+  id,
+  modelId: `arena/${modelName}`,
+  modelName,
+  response: `Resposta de ${modelName}`,
+  responseTimeMs: 1200,
+});
+
+const buildTurn = (overrides: Record<string, unknown> = {}) => ({
+  id: "chat-1-turn-1",
+  prompt: "Quanto é 2 + 2?",
+  timestamp: "2025-11-01T10:00:00.000Z",
+  outputs: [buildOutput("output1", "Modelo Alfa"), buildOutput("output2", "Modelo Beta")],
+  winnerOutputId: null,
+  winnerModelId: null,
+  winnerModelName: null,
+  outcome: null,
+  ranking: null,
+  ...overrides,
+});
+
+const buildChat = (overrides: Record<string, unknown> = {}) => ({
+  id: "chat-1",
+  prompt: "Quanto é 2 + 2?",
+  timestamp: "2025-11-01T10:00:00.000Z",
+  updatedAt: "2025-11-01T10:05:00.000Z",
+  turns: [buildTurn()],
+  ...overrides,
+});
+
+describe("loadChatHistory", () => {
+  describe("0 → 1 migration", () => {
+    it("reads the legacy bare array and fills in updatedAt from the timestamp", () => {
+      const { updatedAt: _updatedAt, ...legacyChat } = buildChat();
+
+      const { entries, quarantined } = loadChatHistory([legacyChat]);
+
+      expect(quarantined).toEqual([]);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].updatedAt).toBe(legacyChat.timestamp);
+    });
+
+    it("defaults missing turns to an empty list", () => {
+      const { turns: _turns, ...legacyChat } = buildChat();
+
+      const { entries } = loadChatHistory([legacyChat]);
+
+      expect(entries[0].turns).toEqual([]);
+    });
+
+    it("moves the chat-level winner onto the last turn by model name", () => {
+      const { entries } = loadChatHistory([buildChat({ winner: "modelo beta" })]);
+
+      const [turn] = entries[0].turns;
+      expect(turn.winnerOutputId).toBe("output2");
+      expect(turn.winnerModelId).toBe("arena/Modelo Beta");
+      expect(turn.winnerModelName).toBe("modelo beta");
+    });
+
+    it("keeps a winner already recorded on the turn", () => {
+      const chat = buildChat({
+        winner: "Modelo Beta",
+        turns: [buildTurn({ winnerOutputId: "output1", winnerModelName: "Modelo Alfa" })],
+      });
+
+      const { entries } = loadChatHistory([chat]);
+
+      expect(entries[0].turns[0].winnerOutputId).toBe("output1");
+    });
+
+    it("also runs for a version 0 envelope", () => {
+      const { updatedAt: _updatedAt, ...legacyChat } = buildChat();
+
+      const { entries } = loadChatHistory({ version: 0, chats: [legacyChat] });
+
+      expect(entries[0].updatedAt).toBe(legacyChat.timestamp);
+    });
+  });
+
+  describe("versioned envelope", () => {
+    it("reads chats stored at the current version without changing them", () => {
+      const chat = buildChat();
+
+      const { entries, quarantined } = loadChatHistory({ version: CHAT_HISTORY_VERSION, chats: [chat] });
+
+      expect(quarantined).toEqual([]);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ id: chat.id, updatedAt: chat.updatedAt });
+    });
+
+    it("round-trips what toStoredChatHistory writes", () => {
+      const { entries } = loadChatHistory({ version: CHAT_HISTORY_VERSION, chats: [buildChat()] });
+
+      expect(loadChatHistory(toStoredChatHistory(entries)).entries).toEqual(entries);
+    });
+
+    it("keeps the chat owner and leaves it unset on chats stored without one", () => {
+      const { entries } = loadChatHistory({
+        version: CHAT_HISTORY_VERSION,
+        chats: [buildChat({ ownerId: "user-1" }), buildChat({ id: "chat-2", ownerId: null }), buildChat({ id: "chat-3" })],
+      });
+
+      expect(entries.map(entry => entry.ownerId)).toEqual(["user-1", null, undefined]);
+    });
+
+    it("drops unknown vote outcomes instead of failing the chat", () => {
+      const chat = buildChat({ turns: [buildTurn({ outcome: "model_z" })] });
+
+      const { entries, quarantined } = loadChatHistory({ version: CHAT_HISTORY_VERSION, chats: [chat] });
+
+      expect(quarantined).toEqual([]);
+      expect(entries[0].turns[0].outcome).toBeNull();
+    });
+  });
+
+  describe("unsupported versions", () => {
+    it("quarantines a history written by a newer version", () => {
+      const stored = { version: CHAT_HISTORY_VERSION + 1, chats: [buildChat()] };
+
+      const { entries, quarantined } = loadChatHistory(stored);
+
+      expect(entries).toEqual([]);
+      expect(quarantined).toHaveLength(1);
+      expect(quarantined[0].raw).toBe(stored);
+      expect(quarantined[0].reason).toContain(`Versão ${CHAT_HISTORY_VERSION + 1}`);
+    });
+
+    it("quarantines a negative version", () => {
+      const { entries, quarantined } = loadChatHistory({ version: -1, chats: [buildChat()] });
+
+      expect(entries).toEqual([]);
+      expect(quarantined).toHaveLength(1);
+    });
+
+    it.each([null, "histórico", { chats: [] }, { version: 1.5, chats: [] }, { version: 1, chats: {} }])(
+      "quarantines an unrecognised format (%j)",
+      stored => {
+        const { entries, quarantined } = loadChatHistory(stored);
+
+        expect(entries).toEqual([]);
+        expect(quarantined).toHaveLength(1);
+        expect(quarantined[0].reason).toBe("Formato de histórico não reconhecido.");
+      }
+    );
+  });
+
+  describe("invalid chats", () => {
+    it("quarantines only the chats that fail validation", () => {
+      const broken = buildChat({ id: "" });
+
+      const { entries, quarantined } = loadChatHistory({
+        version: CHAT_HISTORY_VERSION,
+        chats: [buildChat(), broken],
+      });
+
+      expect(entries.map(entry => entry.id)).toEqual(["chat-1"]);
+      expect(quarantined).toHaveLength(1);
+      expect(quarantined[0].raw).toBe(broken);
+      expect(quarantined[0].reason).toMatch(/^Chat inválido \(id: /);
+    });
+
+    it("quarantines a chat whose turns are not a list", () => {
+      const { entries, quarantined } = validateChatEntries([buildChat({ turns: "nenhum" })]);
+
+      expect(entries).toEqual([]);
+      expect(quarantined[0].reason).toMatch(/^Chat inválido \(turns: /);
+    });
+
+    it("quarantines entries that are not objects after migrating", () => {
+      const { entries, quarantined } = loadChatHistory(["não é um chat", buildChat()]);
+
+      expect(entries).toHaveLength(1);
+      expect(quarantined).toHaveLength(1);
+      expect(quarantined[0].raw).toBe("não é um chat");
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import type { ChatHistoryEntry } from "@/context/ChatHistoryContext";
+import { isArenaVoteOutcome } from "@/lib/rating";
+
+/** A stored chat that failed validation, kept verbatim so it can be inspected or recovered. */
+export interface QuarantinedChat {
+  raw: unknown;
+  reason: string;
+  quarantinedAt: string;
+}
+
+export interface StoredChatHistory {
+  version: number;
+  chats: unknown[];
+}
+
+export interface LoadedChatHistory {
+  entries: ChatHistoryEntry[];
+  quarantined: QuarantinedChat[];
+}
+
+type ChatHistoryMigration = (chats: unknown[]) => unknown[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Chats saved before votes were recorded per turn only named the winner on the
+// chat itself; it is matched back to the last turn's output by model name.
+const assignLegacyWinner = (entry: Record<string, unknown>): Record<string, unknown> => {
+  const turns = Array.isArray(entry.turns) ? entry.turns : [];
+  const lastTurn = turns[turns.length - 1];
+  if (typeof entry.winner !== "string" || !isRecord(lastTurn)) return entry;
+  if (lastTurn.winnerModelName || lastTurn.winnerOutputId) return entry;
+
+  const normalizedWinner = entry.winner.trim().toLowerCase();
+  const outputs = (Array.isArray(lastTurn.outputs) ? lastTurn.outputs : []).filter(isRecord);
+  const matched = normalizedWinner
+    ? outputs.find(output => {
+        const label = String(output.modelName || output.modelId || "").trim().toLowerCase();
+        return label === normalizedWinner;
+      })
+    : undefined;
+
+  return {
+    ...entry,
+    turns: [
+      ...turns.slice(0, -1),
+      {
+        ...lastTurn,
+        winnerOutputId: matched?.id ?? null,
+        winnerModelId: matched?.modelId ?? lastTurn.winnerModelId ?? null,
+        winnerModelName: entry.winner,
+      },
+    ],
+  };
+};
+
+// Index `n` upgrades chats stored at version `n` to version `n + 1`. Steps only
+// reshape data; validation happens once, after the last step.
+const MIGRATIONS: ChatHistoryMigration[] = [
+  // 0 → 1: the bare array written before the envelope existed, where
+  // `updatedAt` could be missing and the winner lived on the chat.
+  chats =>
+    chats.map(entry => {
+      if (!isRecord(entry)) return entry;
+      const timestamp = typeof entry.timestamp === "string" ? entry.timestamp : new Date().toISOString();
+      return assignLegacyWinner({
+        ...entry,
+        timestamp,
+        updatedAt: typeof entry.updatedAt === "string" ? entry.updatedAt : timestamp,
+        turns: Array.isArray(entry.turns) ? entry.turns : [],
+      });
+    }),
+];
+
+export const CHAT_HISTORY_VERSION = MIGRATIONS.length;
+
+const optionalString = z.string().nullable().optional().catch(null);
+const optionalNumber = z.number().nullable().optional().catch(null);
+
+const answerGradeSchema = z.object({
+  kind: z.enum(["numeric", "mcq", "entailment"]),
+  expected: z.string(),
+  extracted: z.string().nullable(),
+  correct: z.boolean().nullable(),
+});
+
+const chatTurnOutputSchema = z.object({
+  id: z.string(),
+  modelId: z.string(),
+  modelName: z.string().catch(""),
+  response: z.string().catch(""),
+  responseTimeMs: z.number().catch(0),
+  tokensUsed: optionalNumber,
+  timeToFirstTokenMs: optionalNumber,
+  tokensPerSecond: optionalNumber,
+  error: optionalString,
+  grade: answerGradeSchema.nullable().optional().catch(null),
+});
+
+// Vote fields fall back to "not voted" rather than failing the whole chat.
+const chatTurnSchema = z.object({
+  id: z.string(),
+  battleId: optionalString,
+  prompt: z.string().catch(""),
+  task: optionalString,
+  taskSource: z.enum(["manual", "classifier"]).nullable().optional().catch(null),
+  goldAnswer: optionalString,
+  timestamp: z.string(),
+  outputs: z.array(chatTurnOutputSchema).default([]),
+  winnerOutputId: z.string().nullable().catch(null),
+  winnerModelId: z.string().nullable().catch(null),
+  winnerModelName: z.string().nullable().catch(null),
+  outcome: z.unknown().transform(value => (isArenaVoteOutcome(value) ? value : null)),
+  ranking: z.array(z.string()).nullable().catch(null),
+  displayOrder: z.array(z.string()).nullable().optional().catch(null),
+});
+
+const chatHistoryEntrySchema = z.object({
+  id: z.string().min(1),
+  prompt: z.string().catch(""),
+  timestamp: z.string(),
+  updatedAt: z.string(),
+  winner: z.string().optional().catch(undefined),
+  tags: z.array(z.string()).optional().catch(undefined),
+  pinned: z.boolean().optional().catch(undefined),
+  ownerId: z.string().nullable().optional().catch(undefined),
+  turns: z.array(chatTurnSchema),
+});
+
+export const quarantineChat = (raw: unknown, reason: string): QuarantinedChat => ({
+  raw,
+  reason,
+  quarantinedAt: new Date().toISOString(),
+});
+
+const describeIssue = (error: z.ZodError) => {
+  const [issue] = error.issues;
+  return issue ? `${issue.path.join(".") || "chat"}: ${issue.message}` : error.message;
+};
+
+/** Validates chats already at the current version, quarantining the ones that do not parse. */
+export const validateChatEntries = (chats: unknown[]): LoadedChatHistory => {
+  const result: LoadedChatHistory = { entries: [], quarantined: [] };
+  chats.forEach(chat => {
+    const parsed = chatHistoryEntrySchema.safeParse(chat);
+    if (parsed.success) {
+      // The app compiles without strictNullChecks, which makes zod infer every key as optional.
+      result.entries.push(parsed.data as ChatHistoryEntry);
+    } else {
+      result.quarantined.push(quarantineChat(chat, `Chat inválido (${describeIssue(parsed.error)}).`));
+    }
+  });
+  return result;
+};
+
+/**
+ * Reads whatever was persisted (the legacy bare array or a versioned envelope),
+ * runs the pending migrations and validates every chat.
+ */
+export const loadChatHistory = (stored: unknown): LoadedChatHistory => {
+  let envelope: StoredChatHistory | null = null;
+  if (Array.isArray(stored)) {
+    envelope = { version: 0, chats: stored };
+  } else if (isRecord(stored) && Number.isInteger(stored.version) && Array.isArray(stored.chats)) {
+    envelope = { version: stored.version as number, chats: stored.chats };
+  }
+
+  if (!envelope) {
+    return { entries: [], quarantined: [quarantineChat(stored, "Formato de histórico não reconhecido.")] };
+  }
+  if (envelope.version < 0 || envelope.version > CHAT_HISTORY_VERSION) {
+    return {
+      entries: [],
+      quarantined: [
+        quarantineChat(stored, `Versão ${envelope.version} do histórico não é suportada (atual: ${CHAT_HISTORY_VERSION}).`),
+      ],
+    };
+  }
+
+  const chats = MIGRATIONS.slice(envelope.version).reduce((current, migrate) => migrate(current), envelope.chats);
+  return validateChatEntries(chats);
+};
+
+export const toStoredChatHistory = (entries: ChatHistoryEntry[]): StoredChatHistory => ({
+  version: CHAT_HISTORY_VERSION,
+  chats: entries,
+});
@@ -0,0 +1,88 @@
+import type { ChatHistoryEntry } from "@/context/ChatHistoryContext";
+
+/** What the server knows about a chat without downloading its turns. */
+export interface RemoteChatVersion {
+  id: string;
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+export interface ChatSyncPlan {
+  // Remote copy is newer: download it and replace the local one.
+  pull: string[];
+  // Local copy is newer or the server has never seen it: upload it.
+  push: string[];
+  // Deleted on another device after the local copy last changed.
+  drop: string[];
+  // Live on the server but older than a history clear made on this device.
+  remove: string[];
+}
+
+const toTime = (iso: string | null | undefined) => {
+  const time = iso ? Date.parse(iso) : NaN;
+  return Number.isFinite(time) ? time : 0;
+};
+
+/**
+ * Compares local chats with the server's versions. The copy with the later
+ * `updatedAt` wins; ties keep both sides as they are. `clearedAt` is the time of
+ * a history clear that has not reached the server yet.
+ */
+export const planChatSync = (
+  local: Pick<ChatHistoryEntry, "id" | "updatedAt">[],
+  remote: RemoteChatVersion[],
+  clearedAt: string | null = null
+): ChatSyncPlan => {
+  const plan: ChatSyncPlan = { pull: [], push: [], drop: [], remove: [] };
+  const localById = new Map(local.map(entry => [entry.id, entry]));
+  const remoteById = new Map(remote.map(version => [version.id, version]));
+  const clearedTime = toTime(clearedAt);
+
+  remote.forEach(version => {
+    const localEntry = localById.get(version.id);
+    const remoteTime = toTime(version.updatedAt);
+    if (version.deletedAt) {
+      if (localEntry && toTime(localEntry.updatedAt) <= toTime(version.deletedAt)) {
+        plan.drop.push(version.id);
+      }
+      return;
+    }
+    if (clearedAt && remoteTime <= clearedTime) {
+      plan.remove.push(version.id);
+      return;
+    }
+    if (!localEntry || remoteTime > toTime(localEntry.updatedAt)) {
+      plan.pull.push(version.id);
+    }
+  });
+
+  local.forEach(entry => {
+    const version = remoteById.get(entry.id);
+    if (plan.drop.includes(entry.id)) return;
+    if (!version || toTime(entry.updatedAt) > toTime(version.updatedAt)) {
+      plan.push.push(entry.id);
+    }
+  });
+
+  return plan;
+};
+
+/**
+ * Applies downloaded chats and remote deletions to the current history. A
+ * pulled chat only replaces a local copy that is still older, since the user
+ * may have kept chatting while the download was in flight.
+ */
+export const mergeRemoteChats = (
+  local: ChatHistoryEntry[],
+  pulled: ChatHistoryEntry[],
+  dropIds: string[] = []
+): ChatHistoryEntry[] => {
+  const merged = new Map(local.filter(entry => !dropIds.includes(entry.id)).map(entry => [entry.id, entry]));
+  pulled.forEach(entry => {
+    const current = merged.get(entry.id);
+    if (!current || toTime(entry.updatedAt) > toTime(current.updatedAt)) {
+      merged.set(entry.id, entry);
+    }
+  });
+  return Array.from(merged.values());
+};
@@ -0,0 +1,186 @@
+import type { ChatHistoryEntry, ChatTurn, ChatTurnOutput } from "@/context/ChatHistoryContext";
+import { CHAT_HISTORY_VERSION, loadChatHistory, quarantineChat } from "@/lib/chatHistoryStorage";
+import type { LoadedChatHistory } from "@/lib/chatHistoryStorage";
+import { orderForDisplay } from "@/lib/positionBias";
+import type { ArenaVoteOutcome } from "@/lib/rating";
+import { parseReasoning } from "@/lib/reasoning";
+
+export type ChatExportFormat = "jsonl" | "markdown";
+
+export const CHAT_EXPORT_FORMATS: Record<ChatExportFormat, { label: string; extension: string; mimeType: string }> = {
+  jsonl: { label: "JSONL", extension: "jsonl", mimeType: "application/x-ndjson" },
+  markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown" },
+};
+
+export interface ChatImportResult {
+  history: ChatHistoryEntry[];
+  added: number;
+  updated: number;
+  // Already present with the same or a newer `updatedAt`.
+  skipped: number;
+}
+
+const OUTCOME_LABELS: Record<ArenaVoteOutcome, string> = {
+  model_a: "Vitória do Modelo A",
+  model_b: "Vitória do Modelo B",
+  tie: "Empate",
+  both_good: "Ambos bons",
+  both_bad: "Ambos ruins",
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toTime = (iso: string | null | undefined) => {
+  const time = iso ? Date.parse(iso) : NaN;
+  return Number.isFinite(time) ? time : 0;
+};
+
+const getOutputLabel = (index: number) => `Modelo ${String.fromCharCode(65 + index)}`;
+
+const isTurnVoted = (turn: ChatTurn) => Boolean(turn.outcome) || Boolean(turn.winnerOutputId) || Boolean(turn.ranking?.length);
+
+// Labels follow the order the outputs were shown in, as in the arena.
+const getShownOutputs = (turn: ChatTurn) => orderForDisplay(turn.outputs, turn.displayOrder, output => output.id);
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? iso : date.toLocaleString("pt-BR");
+};
+
+const formatMetrics = (output: ChatTurnOutput) =>
+  [
+    `${(output.responseTimeMs / 1000).toFixed(2)} s`,
+    output.timeToFirstTokenMs != null ? `1º token em ${Math.round(output.timeToFirstTokenMs)} ms` : null,
+    output.tokensUsed != null ? `${output.tokensUsed} tokens` : null,
+    output.tokensPerSecond != null ? `${output.tokensPerSecond.toFixed(1)} tokens/s` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+const quoteLines = (text: string) =>
+  text
+    .trim()
+    .split("\n")
+    .map(line => (line ? `> ${line}` : ">"))
+    .join("\n");
+
+const describeVote = (turn: ChatTurn) => {
+  if (!isTurnVoted(turn)) return "Sem voto";
+  const shown = getShownOutputs(turn);
+  const labelFor = (outputId: string) => {
+    const index = shown.findIndex(output => output.id === outputId);
+    if (index === -1) return outputId;
+    return `${getOutputLabel(index)} (${shown[index].modelName || shown[index].modelId})`;
+  };
+  if (turn.ranking?.length) {
+    return `Ranking: ${turn.ranking.map((outputId, index) => `${index + 1}º ${labelFor(outputId)}`).join(", ")}`;
+  }
+  if (turn.winnerOutputId) return `Vencedor: ${labelFor(turn.winnerOutputId)}`;
+  return turn.outcome ? OUTCOME_LABELS[turn.outcome] : "Sem voto";
+};
+
+// Model names stay hidden on unvoted turns, as they are in the arena.
+const turnToMarkdown = (turn: ChatTurn, position: number) => {
+  const voted = isTurnVoted(turn);
+  const lines = [`### Turno ${position + 1} · ${formatDate(turn.timestamp)}`, "", quoteLines(turn.prompt), ""];
+  if (turn.task) lines.push(`Tarefa: ${turn.task}`, "");
+  getShownOutputs(turn).forEach((output, index) => {
+    const name = voted ? ` · ${output.modelName || output.modelId}` : "";
+    lines.push(`#### ${getOutputLabel(index)}${name}`, "", `_${formatMetrics(output)}_`, "");
+    if (output.error) {
+      lines.push(`**Erro:** ${output.error}`, "");
+      return;
+    }
+    const { reasoning, answer } = parseReasoning(output.response);
+    if (reasoning) {
+      lines.push("<details>", "<summary>Raciocínio</summary>", "", reasoning, "", "</details>", "");
+    }
+    lines.push(answer.trim() || "_Sem resposta._", "");
+  });
+  lines.push(`**Voto:** ${describeVote(turn)}`, "");
+  return lines.join("\n");
+};
+
+/** Readable transcript for sharing; not meant to be imported back. */
+export const chatsToMarkdown = (entries: ChatHistoryEntry[]): string => {
+  const header = [
+    "# Histórico da Arena",
+    "",
+    `_Exportado em ${formatDate(new Date().toISOString())} · ${entries.length} chat(s)_`,
+    "",
+  ];
+  const chats = entries.map(entry => {
+    const lines = [`## ${entry.prompt.split("\n")[0] || "Chat sem título"}`, ""];
+    lines.push(`- Criado em: ${formatDate(entry.timestamp)}`, `- Atualizado em: ${formatDate(entry.updatedAt)}`);
+    if (entry.tags?.length) lines.push(`- Tags: ${entry.tags.join(", ")}`);
+    lines.push("", ...entry.turns.map(turnToMarkdown));
+    return lines.join("\n");
+  });
+  return [header.join("\n"), ...chats].join("\n---\n\n");
+};
+
+/**
+ * One chat per line, stamped with the storage version so older exports migrate
+ * on import. The owner is left out; importing assigns the importing account.
+ */
+export const chatsToJsonl = (entries: ChatHistoryEntry[]): string =>
+  entries
+    .map(({ ownerId: _ownerId, ...chat }) => JSON.stringify({ version: CHAT_HISTORY_VERSION, chat }))
+    .join("\n");
+
+/**
+ * Reads a JSONL export. Lines that are not JSON, carry an unsupported version or
+ * fail validation come back as quarantined chats instead of aborting the import.
+ * A bare chat object per line is read as the current version.
+ */
+export const parseChatJsonl = (text: string): LoadedChatHistory => {
+  const chatsByVersion = new Map<number, unknown[]>();
+  const result: LoadedChatHistory = { entries: [], quarantined: [] };
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      result.quarantined.push(quarantineChat(line, `Linha ${index + 1} com JSON inválido.`));
+      return;
+    }
+    let version = CHAT_HISTORY_VERSION;
+    let chat = parsed;
+    if (isRecord(parsed) && Number.isInteger(parsed.version) && "chat" in parsed) {
+      version = parsed.version as number;
+      chat = parsed.chat;
+    }
+    chatsByVersion.set(version, [...(chatsByVersion.get(version) ?? []), chat]);
+  });
+  chatsByVersion.forEach((chats, version) => {
+    const loaded = loadChatHistory({ version, chats });
+    result.entries.push(...loaded.entries);
+    result.quarantined.push(...loaded.quarantined);
+  });
+  return result;
+};
+
+/**
+ * Merges imported chats by id. A chat already in the history is only replaced
+ * when the imported copy was updated later, so re-importing a file is a no-op.
+ */
+export const mergeImportedChats = (history: ChatHistoryEntry[], imported: ChatHistoryEntry[]): ChatImportResult => {
+  const merged = new Map(history.map(entry => [entry.id, entry]));
+  const result: ChatImportResult = { history: [], added: 0, updated: 0, skipped: 0 };
+  imported.forEach(entry => {
+    const current = merged.get(entry.id);
+    if (!current) {
+      result.added += 1;
+    } else if (toTime(entry.updatedAt) > toTime(current.updatedAt)) {
+      result.updated += 1;
+    } else {
+      result.skipped += 1;
+      return;
+    }
+    merged.set(entry.id, entry);
+  });
+  result.history = Array.from(merged.values());
+  return result;
+};
@@ -0,0 +1,490 @@
+import { shouldIncludeChainOfThought } from "@/lib/modelAliases";
+
+export type InferenceProviderKind = "openai" | "vllm" | "tgi" | "ollama" | "llamacpp" | "mock";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ModelEndpointConfig {
+  provider: InferenceProviderKind;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+  temperature?: number;
+  maxTokens?: number;
+  timeoutMs?: number;
+}
+
+export interface InferenceRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  // When set, the provider streams and calls this with each text delta.
+  onToken?: (delta: string) => void;
+}
+
+export interface InferenceResult {
+  text: string;
+  tokensUsed: number | null;
+}
+
+export interface TimedInferenceResult extends InferenceResult {
+  latencyMs: number;
+  timeToFirstTokenMs: number | null;
+  tokensPerSecond: number | null;
+}
+
+export type InferenceAbortReason = "timeout" | "cancelled";
+
+export class InferenceAbortedError extends Error {
+  reason: InferenceAbortReason;
+
+  constructor(reason: InferenceAbortReason, message: string) {
+    super(message);
+    this.name = "InferenceAbortedError";
+    this.reason = reason;
+  }
+}
+
+export interface InferenceProvider {
+  complete: (endpoint: ModelEndpointConfig, request: InferenceRequest) => Promise<InferenceResult>;
+}
+
+type ChoiceMessagePart =
+  | string
+  | {
+      text?: string;
+      content?: string;
+    }
+  | null
+  | undefined;
+
+const PROVIDER_KINDS: InferenceProviderKind[] = ["openai", "vllm", "tgi", "ollama", "llamacpp", "mock"];
+
+const DEFAULT_BASE_URLS: Record<InferenceProviderKind, string> = {
+  openai: "https://api.openai.com/v1",
+  vllm: "http://localhost:8000/v1",
+  tgi: "http://localhost:8080/v1",
+  ollama: "http://localhost:11434",
+  llamacpp: "http://localhost:8080/v1",
+  mock: "",
+};
+
+// Without a model id, OpenAI gets a real model and self-hosted servers the alias itself.
+const DEFAULT_MODELS: Record<InferenceProviderKind, string> = {
+  openai: "gpt-4.1-mini",
+  vllm: "{alias}",
+  tgi: "{alias}",
+  ollama: "{alias}",
+  llamacpp: "{alias}",
+  mock: "{alias}",
+};
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 800;
+const DEFAULT_TIMEOUT_MS = 60_000;
+const MOCK_BASE_DELAY_MS = 600;
+const MOCK_TOKEN_DELAY_MS = 25;
+
+const readEnv = (key: string): string | null => {
+  const raw = (import.meta.env as Record<string, string | undefined>)[key];
+  return typeof raw === "string" && raw.trim().length > 0 ? raw.trim() : null;
+};
+
+const isProviderKind = (value: unknown): value is InferenceProviderKind =>
+  typeof value === "string" && PROVIDER_KINDS.includes(value as InferenceProviderKind);
+
+const resolveBaseUrl = (endpoint: ModelEndpointConfig) =>
+  (endpoint.baseUrl ?? DEFAULT_BASE_URLS[endpoint.provider]).replace(/\/$/, "");
+
+const throwForStatus = async (response: Response) => {
+  if (response.ok) return;
+  const responseText = await response.text();
+  throw new Error(
+    `HTTP error! status: ${response.status}${responseText ? ` - ${responseText.slice(0, 200)}` : ""}`
+  );
+};
+
+const extractChoiceContent = (content: unknown): string => {
+  if (typeof content === "string") {
+    return content.trim();
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((part: ChoiceMessagePart) => {
+        if (typeof part === "string") return part;
+        if (part && typeof part === "object") {
+          if (typeof part.text === "string") return part.text;
+          if (typeof part.content === "string") return part.content;
+        }
+        return "";
+      })
+      .join("")
+      .trim();
+  }
+  return "";
+};
+
+const readUsageTokens = (usage: { completion_tokens?: unknown; total_tokens?: unknown } | null | undefined) =>
+  typeof usage?.completion_tokens === "number"
+    ? usage.completion_tokens
+    : typeof usage?.total_tokens === "number"
+      ? usage.total_tokens
+      : null;
+
+// Yields complete lines from a streamed body; used for both SSE and NDJSON.
+async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let newlineIndex = buffer.indexOf("\n");
+    while (newlineIndex !== -1) {
+      yield buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      buffer = buffer.slice(newlineIndex + 1);
+      newlineIndex = buffer.indexOf("\n");
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.length > 0) {
+    yield buffer;
+  }
+}
+
+// TGI and llama.cpp reject or ignore stream_options, so only ask where it is supported.
+const SUPPORTS_STREAM_USAGE: InferenceProviderKind[] = ["openai", "vllm"];
+
+// vLLM, TGI (Messages API) and the llama.cpp server all speak the OpenAI
+// chat-completions dialect, so one client covers them.
+const openAiCompatibleProvider: InferenceProvider = {
+  complete: async (endpoint, request) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (endpoint.apiKey) {
+      headers.Authorization = `Bearer ${endpoint.apiKey}`;
+    }
+    const streaming = Boolean(request.onToken);
+    const response = await fetch(`${resolveBaseUrl(endpoint)}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: endpoint.model,
+        temperature: request.temperature ?? endpoint.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: request.maxTokens ?? endpoint.maxTokens ?? DEFAULT_MAX_TOKENS,
+        messages: request.messages,
+        ...(streaming ? { stream: true } : {}),
+        ...(streaming && SUPPORTS_STREAM_USAGE.includes(endpoint.provider)
+          ? { stream_options: { include_usage: true } }
+          : {}),
+      }),
+    });
+    await throwForStatus(response);
+
+    if (!streaming) {
+      const data = await response.json();
+      return {
+        text: extractChoiceContent(data?.choices?.[0]?.message?.content),
+        tokensUsed: readUsageTokens(data?.usage),
+      };
+    }
+
+    let text = "";
+    let tokensUsed: number | null = null;
+    for await (const line of readLines(response)) {
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (!payload || payload === "[DONE]") continue;
+      let chunk;
+      try {
+        chunk = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      const content = chunk?.choices?.[0]?.delta?.content;
+      // Keep whitespace in string deltas; extractChoiceContent trims.
+      const delta = typeof content === "string" ? content : extractChoiceContent(content);
+      if (delta) {
+        text += delta;
+        request.onToken?.(delta);
+      }
+      tokensUsed = readUsageTokens(chunk?.usage) ?? tokensUsed;
+    }
+    return { text: text.trim(), tokensUsed };
+  },
+};
+
+const ollamaProvider: InferenceProvider = {
+  complete: async (endpoint, request) => {
+    const streaming = Boolean(request.onToken);
+    const response = await fetch(`${resolveBaseUrl(endpoint)}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal: request.signal,
+      body: JSON.stringify({
+        model: endpoint.model,
+        messages: request.messages,
+        stream: streaming,
+        options: {
+          temperature: request.temperature ?? endpoint.temperature ?? DEFAULT_TEMPERATURE,
+          num_predict: request.maxTokens ?? endpoint.maxTokens ?? DEFAULT_MAX_TOKENS,
+        },
+      }),
+    });
+    await throwForStatus(response);
+
+    if (!streaming) {
+      const data = await response.json();
+      return {
+        text: extractChoiceContent(data?.message?.content),
+        tokensUsed: typeof data?.eval_count === "number" ? data.eval_count : null,
+      };
+    }
+
+    // Ollama streams newline-delimited JSON objects rather than SSE.
+    let text = "";
+    let tokensUsed: number | null = null;
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+      let chunk;
+      try {
+        chunk = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      const delta = typeof chunk?.message?.content === "string" ? chunk.message.content : "";
+      if (delta) {
+        text += delta;
+        request.onToken?.(delta);
+      }
+      if (chunk?.done && typeof chunk?.eval_count === "number") {
+        tokensUsed = chunk.eval_count;
+      }
+    }
+    return { text: text.trim(), tokensUsed };
+  },
+};
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+export const buildMockResponseText = (prompt: string, aliasId: string): string => {
+  const task = (aliasId.split("__")[0] || "general").toUpperCase();
+  const baseAnswer = `Analisando o pedido "${prompt}", aqui está uma resposta resumida com foco no domínio ${task}.`;
+  if (!shouldIncludeChainOfThought(aliasId)) {
+    return `${baseAnswer}\n\nResposta: A IA sugere abordar o problema enfatizando os pontos principais e oferecendo recomendações práticas.`;
+  }
+  return `<think>\n1. Identificar os dados e restrições principais do cenário.\n2. Aplicar o método específico do domínio ${task} para estruturar a solução.\n3. Validar o resultado e comunicar de forma clara.\n</think>\n${baseAnswer}\n\nResposta: A IA sugere abordar o problema enfatizando os pontos principais e oferecendo recomendações práticas.`;
+};
+
+const abortableDelay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Deterministic stand-in: same alias + prompt always yields the same text and delay.
+const mockProvider: InferenceProvider = {
+  complete: async (endpoint, request) => {
+    const lastUserMessage =
+      [...request.messages].reverse().find(message => message.role === "user")?.content ?? "";
+    const seed = hashString(`${endpoint.model}::${lastUserMessage}`);
+    await abortableDelay(MOCK_BASE_DELAY_MS + (seed % 1000), request.signal);
+    const text = buildMockResponseText(lastUserMessage, endpoint.model);
+    const pieces = text.match(/\S+\s*/g) ?? [];
+    if (request.onToken) {
+      for (const piece of pieces) {
+        request.onToken(piece);
+        await abortableDelay(MOCK_TOKEN_DELAY_MS, request.signal);
+      }
+    }
+    return { text, tokensUsed: pieces.length };
+  },
+};
+
+const PROVIDERS: Record<InferenceProviderKind, InferenceProvider> = {
+  openai: openAiCompatibleProvider,
+  vllm: openAiCompatibleProvider,
+  tgi: openAiCompatibleProvider,
+  llamacpp: openAiCompatibleProvider,
+  ollama: ollamaProvider,
+  mock: mockProvider,
+};
+
+const parseEndpointOverrides = (): Record<string, Partial<ModelEndpointConfig>> => {
+  const raw = readEnv("VITE_MODEL_ENDPOINTS");
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, Partial<ModelEndpointConfig>>;
+    }
+  } catch (error) {
+    console.error("VITE_MODEL_ENDPOINTS não é um JSON válido:", error);
+  }
+  return {};
+};
+
+/**
+ * A base URL or API key alone means OpenAI, as before providers were pluggable.
+ * With nothing configured, development builds fall back to `mock`; production
+ * builds leave the provider unset so every request fails instead of serving fake answers.
+ */
+const resolveDefaultEndpoint = (): Partial<ModelEndpointConfig> => {
+  const configuredTimeout = Number(readEnv("VITE_INFERENCE_TIMEOUT_MS"));
+  const baseUrl = readEnv("VITE_INFERENCE_BASE_URL") ?? readEnv("VITE_OPENAI_BASE_URL") ?? undefined;
+  const apiKey = readEnv("VITE_INFERENCE_API_KEY") ?? readEnv("VITE_OPENAI_API_KEY") ?? undefined;
+  const configuredProvider = readEnv("VITE_INFERENCE_PROVIDER");
+  let provider: InferenceProviderKind | undefined;
+  if (isProviderKind(configuredProvider)) {
+    provider = configuredProvider;
+  } else if (baseUrl || apiKey) {
+    provider = "openai";
+  } else if (!import.meta.env.PROD) {
+    console.warn("Nenhum provedor de inferência configurado: usando respostas simuladas (mock).");
+    provider = "mock";
+  }
+  return {
+    provider,
+    baseUrl,
+    model: readEnv("VITE_INFERENCE_MODEL") ?? undefined,
+    apiKey,
+    timeoutMs: Number.isFinite(configuredTimeout) && configuredTimeout > 0 ? configuredTimeout : DEFAULT_TIMEOUT_MS,
+  };
+};
+
+const ENDPOINT_OVERRIDES = parseEndpointOverrides();
+const DEFAULT_ENDPOINT = resolveDefaultEndpoint();
+
+/**
+ * Maps an arena alias to the endpoint that serves it. Lookup order: exact alias
+ * key in `VITE_MODEL_ENDPOINTS`, then its `"*"` entry, then the
+ * `VITE_INFERENCE_*` defaults. `{alias}` in the model id is replaced by the alias.
+ */
+export const resolveModelEndpoint = (aliasId: string): ModelEndpointConfig => {
+  const merged: Partial<ModelEndpointConfig> = {
+    ...DEFAULT_ENDPOINT,
+    ...(ENDPOINT_OVERRIDES["*"] ?? {}),
+    ...(ENDPOINT_OVERRIDES[aliasId] ?? {}),
+  };
+  if (!isProviderKind(merged.provider)) {
+    throw new Error(
+      `Nenhum provedor de inferência configurado para ${aliasId}. Defina VITE_INFERENCE_PROVIDER ou VITE_MODEL_ENDPOINTS.`
+    );
+  }
+  const { provider } = merged;
+  return {
+    ...merged,
+    provider,
+    model: (merged.model ?? DEFAULT_MODELS[provider]).replace(/\{alias\}/g, aliasId),
+  };
+};
+
+/** True when any of the aliases would be answered by the `mock` provider. */
+export const usesMockInference = (aliasIds: string[]): boolean =>
+  aliasIds.some(aliasId => {
+    try {
+      return resolveModelEndpoint(aliasId).provider === "mock";
+    } catch {
+      return false;
+    }
+  });
+
+export const getInferenceProvider = (kind: InferenceProviderKind): InferenceProvider => PROVIDERS[kind];
+
+const now = () =>
+  typeof performance !== "undefined" && typeof performance.now === "function" ? performance.now() : Date.now();
+
+/**
+ * Runs a request against the alias endpoint and records latency, time to first
+ * token and generation speed. Without usage data, streamed chunks stand in for tokens.
+ * Aborts after the endpoint timeout or when `request.signal` fires, throwing
+ * InferenceAbortedError in both cases.
+ */
+export const completeWithAlias = async (
+  aliasId: string,
+  request: InferenceRequest
+): Promise<TimedInferenceResult> => {
+  const endpoint = resolveModelEndpoint(aliasId);
+  const timeoutMs = endpoint.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const controller = new AbortController();
+  let abortReason: InferenceAbortReason | null = null;
+  const timer = setTimeout(() => {
+    abortReason = "timeout";
+    controller.abort();
+  }, timeoutMs);
+  const onCallerAbort = () => {
+    abortReason = abortReason ?? "cancelled";
+    controller.abort();
+  };
+  if (request.signal?.aborted) {
+    onCallerAbort();
+  } else {
+    request.signal?.addEventListener("abort", onCallerAbort, { once: true });
+  }
+
+  const startedAt = now();
+  let firstTokenAt: number | null = null;
+  let chunkCount = 0;
+  const onToken = request.onToken
+    ? (delta: string) => {
+        if (firstTokenAt === null) {
+          firstTokenAt = now();
+        }
+        chunkCount += 1;
+        request.onToken?.(delta);
+      }
+    : undefined;
+
+  try {
+    const result = await getInferenceProvider(endpoint.provider).complete(endpoint, {
+      ...request,
+      onToken,
+      signal: controller.signal,
+    });
+    const finishedAt = now();
+    const tokens = result.tokensUsed ?? (chunkCount > 0 ? chunkCount : null);
+    const generationSeconds = firstTokenAt !== null ? (finishedAt - firstTokenAt) / 1000 : 0;
+
+    return {
+      ...result,
+      latencyMs: Math.max(finishedAt - startedAt, 0),
+      timeToFirstTokenMs: firstTokenAt !== null ? Math.max(firstTokenAt - startedAt, 0) : null,
+      tokensPerSecond: tokens !== null && generationSeconds > 0 ? tokens / generationSeconds : null,
+    };
+  } catch (error) {
+    if (abortReason === "timeout") {
+      throw new InferenceAbortedError("timeout", `Tempo limite de ${Math.round(timeoutMs / 1000)}s excedido.`);
+    }
+    if (abortReason === "cancelled") {
+      throw new InferenceAbortedError("cancelled", "Geração interrompida pelo usuário.");
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener("abort", onCallerAbort);
+  }
+};
@@ -0,0 +1,166 @@
+import { buildReasoningInstruction, stripThinkBlocks } from "@/lib/modelAliases";
+import type { ModelAliasEntry } from "@/lib/modelAliases";
+import { createBattleId } from "@/lib/arenaVotes";
+import { completeWithAlias } from "@/lib/inference";
+import type { ChatMessage } from "@/lib/inference";
+import type { ArenaVoteOutcome } from "@/lib/rating";
+
+// Verdict relative to the order the answers were shown in.
+export type JudgeVerdict = "first" | "second" | "tie";
+
+export interface JudgeRound {
+  verdict: JudgeVerdict | null;
+  raw: string;
+}
+
+export interface JudgedBattle {
+  // Shared by the battle's `arena_responses` rows and its judge vote.
+  battleId: string;
+  prompt: string;
+  modelAId: string;
+  modelBId: string;
+  responseA: string;
+  responseB: string;
+  // null when a round gave no parseable verdict; such battles are not recorded.
+  outcome: ArenaVoteOutcome | null;
+  // Original order (A first), then swapped (B first).
+  rounds: JudgeRound[];
+  error: string | null;
+}
+
+export interface JudgeBatchOptions {
+  prompts: string[];
+  modelA: ModelAliasEntry;
+  modelB: ModelAliasEntry;
+  judgeModel: string;
+  signal?: AbortSignal;
+  onResult?: (result: JudgedBattle, index: number) => void | Promise<void>;
+}
+
+/**
+ * The judge is looked up like any alias (`VITE_MODEL_ENDPOINTS`, then the
+ * `VITE_INFERENCE_*` defaults), so it can live on any OpenAI-compatible server.
+ */
+export const DEFAULT_JUDGE_MODEL =
+  (import.meta.env.VITE_JUDGE_MODEL as string | undefined)?.trim() || "judge";
+
+const JUDGE_MAX_TOKENS = 512;
+
+const JUDGE_SYSTEM_PROMPT =
+  "Você é um avaliador imparcial. Compare duas respostas à mesma pergunta considerando correção, raciocínio, clareza e completude. Não deixe a ordem de apresentação nem o tamanho das respostas influenciar a decisão. Explique brevemente e termine com exatamente um veredito: [[A]] se a Resposta A for melhor, [[B]] se a Resposta B for melhor ou [[C]] em caso de empate.";
+
+const VERDICT_PATTERN = /\[\[([ABC])\]\]/g;
+
+const buildJudgeMessages = (prompt: string, first: string, second: string): ChatMessage[] => [
+  { role: "system", content: JUDGE_SYSTEM_PROMPT },
+  {
+    role: "user",
+    content: `[Pergunta]\n${prompt}\n\n[Resposta A]\n${first}\n\n[Resposta B]\n${second}`,
+  },
+];
+
+/** Reads the last `[[A]]`/`[[B]]`/`[[C]]` tag, so quoted examples earlier in the text are ignored. */
+export const parseJudgeVerdict = (text: string): JudgeVerdict | null => {
+  const matches = Array.from(text.matchAll(VERDICT_PATTERN));
+  const last = matches[matches.length - 1]?.[1];
+  if (last === "A") return "first";
+  if (last === "B") return "second";
+  if (last === "C") return "tie";
+  return null;
+};
+
+/**
+ * Combines both presentation orders. The winner has to win in both; a split
+ * decision is a tie, which cancels out position bias.
+ */
+export const combineJudgeVerdicts = (
+  original: JudgeVerdict | null,
+  swapped: JudgeVerdict | null
+): ArenaVoteOutcome | null => {
+  if (!original || !swapped) return null;
+  const fromOriginal: ArenaVoteOutcome =
+    original === "first" ? "model_a" : original === "second" ? "model_b" : "tie";
+  const fromSwapped: ArenaVoteOutcome =
+    swapped === "first" ? "model_b" : swapped === "second" ? "model_a" : "tie";
+  return fromOriginal === fromSwapped ? fromOriginal : "tie";
+};
+
+const askJudge = async (
+  judgeModel: string,
+  prompt: string,
+  first: string,
+  second: string,
+  signal?: AbortSignal
+): Promise<JudgeRound> => {
+  const { text } = await completeWithAlias(judgeModel, {
+    messages: buildJudgeMessages(prompt, first, second),
+    temperature: 0,
+    maxTokens: JUDGE_MAX_TOKENS,
+    signal,
+  });
+  return { verdict: parseJudgeVerdict(text), raw: text };
+};
+
+const generateAnswer = async (alias: ModelAliasEntry, prompt: string, signal?: AbortSignal) => {
+  const { text } = await completeWithAlias(alias.id, {
+    messages: [
+      { role: "system", content: buildReasoningInstruction(alias) },
+      { role: "user", content: prompt },
+    ],
+    signal,
+  });
+  return text;
+};
+
+/**
+ * Replays each prompt through both aliases and has the judge compare the
+ * answers twice, once per order. Reasoning blocks are hidden from the judge.
+ * Per-prompt failures are reported on the result; cancelling `signal` stops
+ * the batch.
+ */
+export const runJudgeBatch = async ({
+  prompts,
+  modelA,
+  modelB,
+  judgeModel,
+  signal,
+  onResult,
+}: JudgeBatchOptions): Promise<JudgedBattle[]> => {
+  const results: JudgedBattle[] = [];
+  for (const [index, prompt] of prompts.entries()) {
+    if (signal?.aborted) break;
+    const result: JudgedBattle = {
+      battleId: createBattleId(),
+      prompt,
+      modelAId: modelA.id,
+      modelBId: modelB.id,
+      responseA: "",
+      responseB: "",
+      outcome: null,
+      rounds: [],
+      error: null,
+    };
+    try {
+      [result.responseA, result.responseB] = await Promise.all([
+        generateAnswer(modelA, prompt, signal),
+        generateAnswer(modelB, prompt, signal),
+      ]);
+      const answerA = stripThinkBlocks(result.responseA);
+      const answerB = stripThinkBlocks(result.responseB);
+      result.rounds = await Promise.all([
+        askJudge(judgeModel, prompt, answerA, answerB, signal),
+        askJudge(judgeModel, prompt, answerB, answerA, signal),
+      ]);
+      result.outcome = combineJudgeVerdicts(result.rounds[0].verdict, result.rounds[1].verdict);
+      if (!result.outcome) {
+        result.error = "O juiz não retornou um veredito reconhecível.";
+      }
+    } catch (error) {
+      if (signal?.aborted) break;
+      result.error = error instanceof Error ? error.message : "Falha ao avaliar o prompt.";
+    }
+    results.push(result);
+    await onResult?.(result, index);
+  }
+  return results;
+};
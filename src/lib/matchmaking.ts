@@ -0,0 +1,196 @@
+import { computeModelRatings, votesToComparisons } from "@/lib/rating";
+import type { ArenaVoteLike } from "@/lib/rating";
+import type { ModelAliasEntry } from "@/lib/modelAliases";
+
+export type MatchmakingStrategy = "balanced" | "under_sampled" | "close_ratings" | "same_family" | "random";
+
+export const MATCHMAKING_STRATEGY_LABELS: Record<MatchmakingStrategy, string> = {
+  balanced: "Equilibrado",
+  under_sampled: "Pares pouco avaliados",
+  close_ratings: "Ratings próximos",
+  same_family: "Mesma família (GRPO vs LoRA)",
+  random: "Aleatório",
+};
+
+export interface MatchmakingOptions {
+  strategy: MatchmakingStrategy;
+  // Only pair checkpoints trained on the same task.
+  sameTaskOnly: boolean;
+  // Restrict the draw to checkpoints trained on this task (selected or classified).
+  task?: string | null;
+}
+
+interface RatingInterval {
+  rating: number;
+  ciLower: number;
+  ciUpper: number;
+}
+
+export interface MatchmakingStats {
+  pairCounts: Map<string, number>;
+  ratings: Map<string, RatingInterval>;
+}
+
+// Fewer rounds than the leaderboard: intervals only need to be roughly right to steer pairing.
+const MATCHMAKING_BOOTSTRAP_ROUNDS = 50;
+// Keeps well-separated pairs possible, just rarer.
+const MIN_OVERLAP_WEIGHT = 0.1;
+
+export const createEmptyMatchmakingStats = (): MatchmakingStats => ({
+  pairCounts: new Map(),
+  ratings: new Map(),
+});
+
+const getPairKey = (modelA: string, modelB: string) =>
+  modelA < modelB ? `${modelA}::${modelB}` : `${modelB}::${modelA}`;
+
+export const buildMatchmakingStats = (votes: ArenaVoteLike[]): MatchmakingStats => {
+  const stats = createEmptyMatchmakingStats();
+  const comparisons = votesToComparisons(votes);
+  comparisons.forEach(({ modelA, modelB }) => {
+    const key = getPairKey(modelA, modelB);
+    stats.pairCounts.set(key, (stats.pairCounts.get(key) ?? 0) + 1);
+  });
+  computeModelRatings(comparisons, { bootstrapRounds: MATCHMAKING_BOOTSTRAP_ROUNDS }).forEach(rating => {
+    stats.ratings.set(rating.modelId, {
+      rating: rating.rating,
+      ciLower: rating.ciLower,
+      ciUpper: rating.ciUpper,
+    });
+  });
+  return stats;
+};
+
+/** Counts a freshly cast vote so the next pick already sees it. */
+export const recordMatch = (stats: MatchmakingStats, modelA: string, modelB: string) => {
+  const key = getPairKey(modelA, modelB);
+  stats.pairCounts.set(key, (stats.pairCounts.get(key) ?? 0) + 1);
+};
+
+const getSamplingWeight = (stats: MatchmakingStats, modelA: string, modelB: string) =>
+  1 / (1 + (stats.pairCounts.get(getPairKey(modelA, modelB)) ?? 0));
+
+// Share of the narrower interval covered by the overlap; unrated models count
+// as fully uncertain.
+const getOverlapWeight = (stats: MatchmakingStats, modelA: string, modelB: string) => {
+  const a = stats.ratings.get(modelA);
+  const b = stats.ratings.get(modelB);
+  if (!a || !b) return 1;
+  const overlap = Math.min(a.ciUpper, b.ciUpper) - Math.max(a.ciLower, b.ciLower);
+  const narrowest = Math.min(a.ciUpper - a.ciLower, b.ciUpper - b.ciLower);
+  if (!(narrowest > 0)) return overlap >= 0 ? 1 : MIN_OVERLAP_WEIGHT;
+  return Math.max(MIN_OVERLAP_WEIGHT, Math.min(1, overlap / narrowest));
+};
+
+const getPairWeight = (
+  strategy: MatchmakingStrategy,
+  stats: MatchmakingStats,
+  a: ModelAliasEntry,
+  b: ModelAliasEntry
+) => {
+  switch (strategy) {
+    case "balanced":
+      return getSamplingWeight(stats, a.id, b.id) * getOverlapWeight(stats, a.id, b.id);
+    case "under_sampled":
+    case "same_family":
+      return getSamplingWeight(stats, a.id, b.id);
+    case "close_ratings":
+      return getOverlapWeight(stats, a.id, b.id);
+    case "random":
+    default:
+      return 1;
+  }
+};
+
+const isSameFamilyMatchup = (a: ModelAliasEntry, b: ModelAliasEntry) =>
+  a.family === b.family && a.technique !== b.technique;
+
+const drawWeighted = <T,>(items: T[], weights: number[], random: () => number): T => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  let threshold = random() * totalWeight;
+  for (let i = 0; i < items.length; i += 1) {
+    threshold -= weights[i];
+    if (threshold <= 0) return items[i];
+  }
+  return items[items.length - 1];
+};
+
+/**
+ * Draws an alias pair with probability proportional to the strategy's weight.
+ * Constraints that leave no candidate are relaxed (same family first, then
+ * same task, then the requested task) rather than failing the battle. The A/B
+ * order is randomised.
+ */
+export const pickAliasPair = (
+  entries: ModelAliasEntry[],
+  stats: MatchmakingStats,
+  options: MatchmakingOptions,
+  random: () => number = Math.random
+): [ModelAliasEntry, ModelAliasEntry] => {
+  if (entries.length < 2) {
+    throw new Error("Alias catalog insuficiente para compor pares.");
+  }
+
+  const taskEntries = options.task ? entries.filter(entry => entry.task === options.task) : [];
+  const pool = taskEntries.length >= 2 ? taskEntries : entries;
+  const allPairs: [ModelAliasEntry, ModelAliasEntry][] = [];
+  for (let i = 0; i < pool.length; i += 1) {
+    for (let j = i + 1; j < pool.length; j += 1) {
+      if (pool[i].id !== pool[j].id) {
+        allPairs.push([pool[i], pool[j]]);
+      }
+    }
+  }
+
+  const sameTaskPairs = options.sameTaskOnly ? allPairs.filter(([a, b]) => a.task === b.task) : allPairs;
+  const taskPool = sameTaskPairs.length > 0 ? sameTaskPairs : allPairs;
+  const familyPairs =
+    options.strategy === "same_family" ? taskPool.filter(([a, b]) => isSameFamilyMatchup(a, b)) : [];
+  const candidates = familyPairs.length > 0 ? familyPairs : taskPool;
+
+  const weights = candidates.map(([a, b]) => getPairWeight(options.strategy, stats, a, b));
+  const chosen = drawWeighted(candidates, weights, random);
+
+  return random() < 0.5 ? [chosen[0], chosen[1]] : [chosen[1], chosen[0]];
+};
+
+/**
+ * Draws a battle of `size` aliases: the first pair comes from pickAliasPair,
+ * then each extra alias is weighted by its mean pair weight against the ones
+ * already drawn, under the same (relaxable) task and family constraints. The
+ * display order is shuffled.
+ */
+export const pickAliasGroup = (
+  entries: ModelAliasEntry[],
+  stats: MatchmakingStats,
+  options: MatchmakingOptions,
+  size: number,
+  random: () => number = Math.random
+): ModelAliasEntry[] => {
+  const group: ModelAliasEntry[] = pickAliasPair(entries, stats, options, random);
+  const [anchor] = group;
+  while (group.length < size) {
+    const remaining = entries.filter(entry => !group.some(member => member.id === entry.id));
+    if (remaining.length === 0) break;
+    const taskRemaining = options.task ? remaining.filter(entry => entry.task === options.task) : [];
+    const pool = taskRemaining.length > 0 ? taskRemaining : remaining;
+    const sameTask = options.sameTaskOnly ? pool.filter(entry => entry.task === anchor.task) : pool;
+    const taskPool = sameTask.length > 0 ? sameTask : pool;
+    const sameFamily =
+      options.strategy === "same_family" ? taskPool.filter(entry => entry.family === anchor.family) : [];
+    const candidates = sameFamily.length > 0 ? sameFamily : taskPool;
+
+    const weights = candidates.map(
+      candidate =>
+        group.reduce((sum, member) => sum + getPairWeight(options.strategy, stats, candidate, member), 0) /
+        group.length
+    );
+    group.push(drawWeighted(candidates, weights, random));
+  }
+
+  for (let i = group.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [group[i], group[j]] = [group[j], group[i]];
+  }
+  return group;
+};
@@ -0,0 +1,139 @@
+export const TASK_LABELS: Record<string, string> = {
+  aqua_rat: "AquaRAT",
+  esnli: "ESNLI",
+  gsm8k: "GSM8K",
+  math_qa: "MathQA",
+  strategy_qa: "StrategyQA",
+};
+
+export const MODEL_ALIAS_STRINGS = [
+  "aqua_rat__Llama-3.2-3B-Instruct__grpo",
+  "aqua_rat__Llama-3.2-3B-Instruct__grpo_on_lora",
+  "aqua_rat__Llama-3.2-3B-Instruct__lora",
+  "aqua_rat__Phi-4-mini-instruct__grpo",
+  "aqua_rat__Phi-4-mini-instruct__grpo_on_lora",
+  "aqua_rat__Phi-4-mini-instruct__lora",
+  "aqua_rat__Qwen3-4B-Instruct-2507__grpo",
+  "aqua_rat__Qwen3-4B-Instruct-2507__grpo_on_lora",
+  "aqua_rat__Qwen3-4B-Instruct-2507__lora",
+  "aqua_rat__gemma-3-4b-it__grpo",
+  "aqua_rat__gemma-3-4b-it__grpo_on_lora",
+  "aqua_rat__gemma-3-4b-it__lora",
+  "esnli__Llama-3.2-3B-Instruct__grpo",
+  "esnli__Llama-3.2-3B-Instruct__grpo_on_lora",
+  "esnli__Llama-3.2-3B-Instruct__lora",
+  "esnli__Phi-4-mini-instruct__grpo",
+  "esnli__Phi-4-mini-instruct__grpo_on_lora",
+  "esnli__Phi-4-mini-instruct__lora",
+  "esnli__Qwen3-4B-Instruct-2507__grpo",
+  "esnli__Qwen3-4B-Instruct-2507__grpo_on_lora",
+  "esnli__Qwen3-4B-Instruct-2507__lora",
+  "esnli__gemma-3-4b-it__grpo",
+  "esnli__gemma-3-4b-it__grpo_on_lora",
+  "esnli__gemma-3-4b-it__lora",
+  "gsm8k__Llama-3.2-3B-Instruct__grpo",
+  "gsm8k__Llama-3.2-3B-Instruct__grpo_on_lora",
+  "gsm8k__Llama-3.2-3B-Instruct__lora",
+  "gsm8k__Phi-4-mini-instruct__grpo",
+  "gsm8k__Phi-4-mini-instruct__grpo_on_lora",
+  "gsm8k__Phi-4-mini-instruct__lora",
+  "gsm8k__Qwen3-4B-Instruct-2507__grpo",
+  "gsm8k__Qwen3-4B-Instruct-2507__grpo_on_lora",
+  "gsm8k__Qwen3-4B-Instruct-2507__lora",
+  "gsm8k__gemma-3-4b-it__grpo",
+  "gsm8k__gemma-3-4b-it__grpo_on_lora",
+  "gsm8k__gemma-3-4b-it__lora",
+  "math_qa__Llama-3.2-3B-Instruct__grpo",
+  "math_qa__Llama-3.2-3B-Instruct__grpo_on_lora",
+  "math_qa__Llama-3.2-3B-Instruct__lora",
+  "math_qa__Phi-4-mini-instruct__lora",
+  "math_qa__Qwen3-4B-Instruct-2507__grpo",
+  "math_qa__Qwen3-4B-Instruct-2507__grpo_on_lora",
+  "math_qa__Qwen3-4B-Instruct-2507__lora",
+  "math_qa__gemma-3-4b-it__grpo",
+  "math_qa__gemma-3-4b-it__grpo_on_lora",
+  "math_qa__gemma-3-4b-it__lora",
+  "strategy_qa__Llama-3.2-3B-Instruct__grpo",
+  "strategy_qa__Llama-3.2-3B-Instruct__lora",
+  "strategy_qa__Phi-4-mini-instruct__grpo",
+  "strategy_qa__Phi-4-mini-instruct__grpo_on_lora",
+  "strategy_qa__Phi-4-mini-instruct__lora",
+  "strategy_qa__Qwen3-4B-Instruct-2507__grpo",
+  "strategy_qa__Qwen3-4B-Instruct-2507__grpo_on_lora",
+  "strategy_qa__Qwen3-4B-Instruct-2507__lora",
+  "strategy_qa__gemma-3-4b-it__grpo",
+  "strategy_qa__gemma-3-4b-it__grpo_on_lora",
+  "strategy_qa__gemma-3-4b-it__lora",
+] as const;
+
+export type AliasTechnique = "grpo" | "lora" | "grpo_on_lora";
+
+export const ALIAS_TECHNIQUE_LABELS: Record<AliasTechnique, string> = {
+  grpo: "GRPO",
+  lora: "Lora/QLora",
+  grpo_on_lora: "Lora+GRPO",
+};
+
+export interface AliasMetadata {
+  task: string;
+  family: string;
+  technique: AliasTechnique | null;
+  checkpoint: string | null;
+}
+
+export interface ModelAliasEntry extends AliasMetadata {
+  id: string;
+  displayName: string;
+}
+
+const isAliasTechnique = (value: string): value is AliasTechnique => value in ALIAS_TECHNIQUE_LABELS;
+
+/**
+ * Splits an alias id (`task__family__technique[__checkpoint]`) into its parts.
+ * Returns null for ids that do not follow the convention, e.g. votes recorded
+ * before the alias catalog existed.
+ */
+export const parseAliasId = (aliasId: string | null | undefined): AliasMetadata | null => {
+  const parts = aliasId?.trim().split("__") ?? [];
+  if (parts.length < 3 || parts.some(part => !part)) return null;
+  const [task, family, variant, ...rest] = parts;
+  return {
+    task,
+    family,
+    technique: isAliasTechnique(variant) ? variant : null,
+    checkpoint: rest.length > 0 ? rest.join("__") : null,
+  };
+};
+
+export const formatDisplayName = (rawTask: string, base: string, variant: string, suffix: string | undefined) => {
+  const taskLabel = TASK_LABELS[rawTask] ?? rawTask.toUpperCase();
+  const baseLabel = base
+    .replace(/-/g, " ")
+    .replace(/\b(\w)/g, char => char.toUpperCase())
+    .replace(/\b3b\b/gi, "3B");
+  const variantLabel = variant.replace(/_/g, " ").toUpperCase();
+  const suffixLabel = suffix?.replace("merged_fp16-", "#").replace("merged_fp8-", "#") ?? "";
+  return `${taskLabel} · ${baseLabel} (${variantLabel}${suffixLabel ? ` ${suffixLabel}` : ""})`;
+};
+
+export const MODEL_ALIAS_ENTRIES: ModelAliasEntry[] = MODEL_ALIAS_STRINGS.map(raw => {
+  const [task = "general", base = "Model", variant = "variant", suffix] = raw.split("__");
+  const metadata = parseAliasId(raw);
+  return {
+    id: raw,
+    task,
+    family: metadata?.family ?? base,
+    technique: metadata?.technique ?? null,
+    checkpoint: metadata?.checkpoint ?? null,
+    displayName: formatDisplayName(task, base, variant, suffix),
+  };
+});
+
+export const shouldIncludeChainOfThought = (aliasId: string): boolean => aliasId.includes("__grpo");
+
+export const buildReasoningInstruction = (alias: ModelAliasEntry): string =>
+  shouldIncludeChainOfThought(alias.id)
+    ? "Inclua uma seção curta limitada por tags <think></think> com 2 a 3 passos de pensamento em primeira pessoa, antes de fornecer a resposta final. O pensamento deve incluir conclusões e tomadas de decisão, simulando o processo de raciocínio do modelo para resolver o problema em questão."
+    : "Responda de forma direta, sem seções adicionais de raciocínio.";
+
+export const stripThinkBlocks = (text: string) => text.replace(/<think>[\s\S]*?(?:<\/think>|$)/gi, "").trim();
@@ -0,0 +1,116 @@
+export interface PositionVoteLike {
+  model_a_id: string | null;
+  model_b_id: string | null;
+  winner_model_id: string | null;
+  participants?: string[] | null;
+  // Model ids left to right as they were shown.
+  display_order?: string[] | null;
+}
+
+export interface ModelPositionStats {
+  modelId: string;
+  leftBattles: number;
+  leftWins: number;
+  rightBattles: number;
+  rightWins: number;
+  leftWinRate: number | null;
+  rightWinRate: number | null;
+  // Left win rate minus right win rate; positive means the model does better on the left.
+  bias: number | null;
+}
+
+export interface PositionBiasSummary {
+  // Two-model votes with a winner; ties and shared outcomes say nothing about position.
+  decisiveVotes: number;
+  leftWins: number;
+  leftWinRate: number | null;
+  // Normal approximation of a binomial test against a 50% left win rate.
+  zScore: number | null;
+  isSignificant: boolean;
+  byModel: ModelPositionStats[];
+}
+
+// Two-sided 95% threshold.
+const SIGNIFICANT_Z = 1.96;
+
+/** Random left-to-right order for a battle's outputs. */
+export const shuffleDisplayOrder = (ids: string[], random: () => number = Math.random): string[] => {
+  const order = [...ids];
+  for (let i = order.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+/** Items in the order they were shown. Keys missing from the order keep their stored position at the end. */
+export const orderForDisplay = <T>(
+  items: T[],
+  displayOrder: string[] | null | undefined,
+  getKey: (item: T) => string
+): T[] => {
+  if (!displayOrder?.length) return items;
+  const rank = (item: T) => {
+    const index = displayOrder.indexOf(getKey(item));
+    return index === -1 ? displayOrder.length : index;
+  };
+  return [...items].sort((a, b) => rank(a) - rank(b));
+};
+
+// Before display positions were randomized, outputs were shown in participant order.
+const getShownOrder = (vote: PositionVoteLike) =>
+  vote.display_order ?? vote.participants ?? [vote.model_a_id, vote.model_b_id].filter(Boolean);
+
+const rate = (wins: number, total: number) => (total > 0 ? wins / total : null);
+
+export const computePositionBias = (votes: PositionVoteLike[]): PositionBiasSummary => {
+  const models = new Map<string, Omit<ModelPositionStats, "leftWinRate" | "rightWinRate" | "bias">>();
+  const statsFor = (modelId: string) => {
+    const existing = models.get(modelId);
+    if (existing) return existing;
+    const created = { modelId, leftBattles: 0, leftWins: 0, rightBattles: 0, rightWins: 0 };
+    models.set(modelId, created);
+    return created;
+  };
+
+  let decisiveVotes = 0;
+  let leftWins = 0;
+  votes.forEach(vote => {
+    const shown = getShownOrder(vote);
+    if (shown.length !== 2 || !vote.winner_model_id || !shown.includes(vote.winner_model_id)) return;
+    const [left, right] = shown;
+    const leftWon = vote.winner_model_id === left;
+    decisiveVotes += 1;
+    if (leftWon) leftWins += 1;
+
+    const leftStats = statsFor(left);
+    leftStats.leftBattles += 1;
+    if (leftWon) leftStats.leftWins += 1;
+    const rightStats = statsFor(right);
+    rightStats.rightBattles += 1;
+    if (!leftWon) rightStats.rightWins += 1;
+  });
+
+  const zScore = decisiveVotes > 0 ? (leftWins - decisiveVotes / 2) / Math.sqrt(decisiveVotes / 4) : null;
+  const byModel = Array.from(models.values())
+    .map(stats => {
+      const leftWinRate = rate(stats.leftWins, stats.leftBattles);
+      const rightWinRate = rate(stats.rightWins, stats.rightBattles);
+      return {
+        ...stats,
+        leftWinRate,
+        rightWinRate,
+        bias: leftWinRate !== null && rightWinRate !== null ? leftWinRate - rightWinRate : null,
+      };
+    })
+    .sort((a, b) => Math.abs(b.bias ?? 0) - Math.abs(a.bias ?? 0));
+
+  return {
+    decisiveVotes,
+    leftWins,
+    leftWinRate: rate(leftWins, decisiveVotes),
+    zScore,
+    isSignificant: zScore !== null && Math.abs(zScore) >= SIGNIFICANT_Z,
+    byModel,
+  };
+};
@@ -0,0 +1,73 @@
+import { TASK_LABELS } from "@/lib/modelAliases";
+
+export type TaskSource = "manual" | "classifier";
+
+export interface PromptClassification {
+  task: string;
+  // Share of the matched keyword weight that went to the winning task.
+  confidence: number;
+}
+
+interface TaskSignal {
+  pattern: RegExp;
+  weight: number;
+}
+
+// `\b` is ASCII-only, so accented words need explicit letter boundaries.
+const words = (...terms: string[]) => new RegExp(`(?<!\\p{L})(?:${terms.join("|")})(?!\\p{L})`, "iu");
+
+// Hand-tuned for the Portuguese prompts the arena receives; each task maps to
+// the dataset its checkpoints were fine-tuned on.
+const TASK_SIGNALS: Record<string, TaskSignal[]> = {
+  esnli: [
+    { pattern: words("implica", "implicação", "contradiz", "contradição", "neutro", "neutra"), weight: 3 },
+    { pattern: words("premissa", "hipótese", "entailment", "contradiction"), weight: 3 },
+    { pattern: words("classifique", "resuma", "resumo"), weight: 1 },
+  ],
+  gsm8k: [
+    { pattern: words("quantos", "quantas", "quanto"), weight: 2 },
+    { pattern: words("cada", "total", "sobram", "restam", "arrecadação", "pacotes?", "ingressos?"), weight: 1 },
+    { pattern: /\d+/, weight: 1 },
+  ],
+  math_qa: [
+    { pattern: words("velocidade", "km/h", "juros", "porcentagem", "taxa", "média", "saldo", "litros?"), weight: 2 },
+    { pattern: /%|R\$/, weight: 1 },
+    { pattern: /\d+[.,]\d+/, weight: 1 },
+  ],
+  aqua_rat: [
+    { pattern: /(^|\s)\(?[a-e]\)\s/im, weight: 3 },
+    { pattern: words("alternativas?", "opções", "assinale"), weight: 3 },
+    { pattern: words("por que", "explique", "quem"), weight: 1 },
+  ],
+  strategy_qa: [
+    { pattern: words("estratégia", "prioridades?", "decidir", "frentes?", "investimento"), weight: 2 },
+    { pattern: words("é possível", "seria", "vale a pena", "sim ou não"), weight: 2 },
+  ],
+};
+
+/**
+ * Guesses which training task a free-form prompt belongs to. Returns null when
+ * no signal fires, so callers can fall back to the whole catalog.
+ */
+export const classifyPromptTask = (prompt: string): PromptClassification | null => {
+  const text = prompt.trim();
+  if (!text) return null;
+
+  let total = 0;
+  let bestTask: string | null = null;
+  let bestScore = 0;
+  for (const [task, signals] of Object.entries(TASK_SIGNALS)) {
+    const score = signals.reduce((sum, signal) => sum + (signal.pattern.test(text) ? signal.weight : 0), 0);
+    total += score;
+    if (score > bestScore) {
+      bestTask = task;
+      bestScore = score;
+    }
+  }
+
+  if (!bestTask) return null;
+  return { task: bestTask, confidence: bestScore / total };
+};
+
+export const getTaskLabel = (task: string | null | undefined): string =>
+  task ? TASK_LABELS[task] ?? task.toUpperCase() : "Automático";
@@ -0,0 +1,333 @@
+export interface PairwiseComparison {
+  modelA: string;
+  modelB: string;
+  // 1 when modelA wins, 0 when modelB wins, 0.5 for a tie.
+  scoreA: number;
+}
+
+export type ArenaVoteOutcome = "model_a" | "model_b" | "tie" | "both_good" | "both_bad";
+
+export const ARENA_VOTE_OUTCOMES: ArenaVoteOutcome[] = ["model_a", "model_b", "tie", "both_good", "both_bad"];
+
+export const isArenaVoteOutcome = (value: unknown): value is ArenaVoteOutcome =>
+  typeof value === "string" && (ARENA_VOTE_OUTCOMES as string[]).includes(value);
+
+// "best_of_n" and "ranked" only apply to battles with more than two models.
+export type ArenaVoteType = "pairwise" | "best_of_n" | "ranked";
+
+export interface ArenaVoteLike {
+  model_a_id: string | null;
+  model_b_id: string | null;
+  winner_model_id: string | null;
+  outcome?: string | null;
+  // Every model shown in the battle; model_a/model_b are its first two.
+  participants?: string[] | null;
+  // Voted order, best first. A best-of-N vote holds only the winner.
+  ranking?: string[] | null;
+}
+
+const OUTCOME_SCORES: Record<ArenaVoteOutcome, number> = {
+  model_a: 1,
+  model_b: 0,
+  tie: 0.5,
+  both_good: 0.5,
+  both_bad: 0.5,
+};
+
+export type RatingMethod = "bradley_terry" | "elo";
+
+export interface ModelRating {
+  modelId: string;
+  rating: number;
+  ciLower: number;
+  ciUpper: number;
+  elo: number;
+  eloCiLower: number;
+  eloCiUpper: number;
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number;
+}
+
+export interface RatingOptions {
+  baseRating?: number;
+  scale?: number;
+  eloK?: number;
+  bootstrapRounds?: number;
+  confidence?: number;
+  seed?: number;
+}
+
+const DEFAULT_OPTIONS: Required<RatingOptions> = {
+  baseRating: 1000,
+  scale: 400,
+  eloK: 16,
+  bootstrapRounds: 200,
+  confidence: 0.95,
+  seed: 42,
+};
+
+const BT_MAX_ITERATIONS = 200;
+const BT_TOLERANCE = 1e-6;
+// Virtual tie against an average opponent keeps strengths finite for
+// models that never lost (or never won) without moving well-sampled ones.
+const BT_PRIOR_GAMES = 1;
+
+const getParticipants = (vote: ArenaVoteLike): string[] =>
+  Array.from(new Set((vote.participants ?? []).map(modelId => modelId?.trim()).filter(Boolean)));
+
+/**
+ * Decomposes a battle with more than two models into pairwise outcomes: each
+ * ranked model beats every model ranked below it and every unranked one, while
+ * unranked models are not compared with each other. Without a ranking or a
+ * winner the vote ("tie", "all good/bad") is a tie for every pair.
+ */
+const decomposeMultiwayVote = (vote: ArenaVoteLike, participants: string[]): PairwiseComparison[] => {
+  const winner = vote.winner_model_id?.trim();
+  const ranking = (vote.ranking?.length ? vote.ranking : winner ? [winner] : [])
+    .map(modelId => modelId?.trim())
+    .filter((modelId, index, all) => participants.includes(modelId) && all.indexOf(modelId) === index);
+  const comparisons: PairwiseComparison[] = [];
+
+  if (ranking.length === 0) {
+    participants.forEach((modelA, i) => {
+      participants.slice(i + 1).forEach(modelB => comparisons.push({ modelA, modelB, scoreA: 0.5 }));
+    });
+    return comparisons;
+  }
+
+  const unranked = participants.filter(modelId => !ranking.includes(modelId));
+  ranking.forEach((modelA, i) => {
+    [...ranking.slice(i + 1), ...unranked].forEach(modelB => comparisons.push({ modelA, modelB, scoreA: 1 }));
+  });
+  return comparisons;
+};
+
+/**
+ * Converts raw `arena_votes` rows into pairwise comparisons. Battles with more
+ * than two participants are decomposed from their ranking. Otherwise the
+ * `outcome` column wins when present ("both good" and "both bad" score as
+ * ties); older rows fall back to the winner id, where null is a tie and a
+ * winner matching neither side is ignored.
+ */
+export const votesToComparisons = (votes: ArenaVoteLike[]): PairwiseComparison[] => {
+  const comparisons: PairwiseComparison[] = [];
+  votes.forEach(vote => {
+    const participants = getParticipants(vote);
+    if (participants.length > 2) {
+      comparisons.push(...decomposeMultiwayVote(vote, participants));
+      return;
+    }
+    const modelA = vote.model_a_id?.trim();
+    const modelB = vote.model_b_id?.trim();
+    if (!modelA || !modelB || modelA === modelB) return;
+    if (isArenaVoteOutcome(vote.outcome)) {
+      comparisons.push({ modelA, modelB, scoreA: OUTCOME_SCORES[vote.outcome] });
+      return;
+    }
+    const winner = vote.winner_model_id?.trim() || null;
+    let scoreA: number;
+    if (!winner) {
+      scoreA = 0.5;
+    } else if (winner === modelA) {
+      scoreA = 1;
+    } else if (winner === modelB) {
+      scoreA = 0;
+    } else {
+      return;
+    }
+    comparisons.push({ modelA, modelB, scoreA });
+  });
+  return comparisons;
+};
+
+// Small deterministic PRNG so bootstrap intervals are stable between reloads.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const collectModels = (comparisons: PairwiseComparison[]): string[] => {
+  const models = new Set<string>();
+  comparisons.forEach(({ modelA, modelB }) => {
+    models.add(modelA);
+    models.add(modelB);
+  });
+  return Array.from(models).sort();
+};
+
+/**
+ * Online Elo over the comparisons in the given order. Order matters, which is
+ * why the bootstrap below also shuffles.
+ */
+export const computeElo = (
+  comparisons: PairwiseComparison[],
+  options: RatingOptions = {}
+): Record<string, number> => {
+  const { baseRating, scale, eloK } = { ...DEFAULT_OPTIONS, ...options };
+  const ratings: Record<string, number> = {};
+  comparisons.forEach(({ modelA, modelB, scoreA }) => {
+    const ratingA = ratings[modelA] ?? baseRating;
+    const ratingB = ratings[modelB] ?? baseRating;
+    const expectedA = 1 / (1 + Math.pow(10, (ratingB - ratingA) / scale));
+    ratings[modelA] = ratingA + eloK * (scoreA - expectedA);
+    ratings[modelB] = ratingB + eloK * (expectedA - scoreA);
+  });
+  return ratings;
+};
+
+/**
+ * Bradley-Terry strengths fitted with the MM algorithm (ties count as half a
+ * win for each side), reported on the Elo scale so both methods are comparable.
+ */
+export const computeBradleyTerry = (
+  comparisons: PairwiseComparison[],
+  options: RatingOptions = {}
+): Record<string, number> => {
+  const { baseRating, scale } = { ...DEFAULT_OPTIONS, ...options };
+  const models = collectModels(comparisons);
+  if (models.length === 0) return {};
+
+  const index = new Map(models.map((model, i) => [model, i]));
+  const size = models.length;
+  const wins = new Array<number>(size).fill(BT_PRIOR_GAMES / 2);
+  const pairGames = new Map<string, number>();
+
+  comparisons.forEach(({ modelA, modelB, scoreA }) => {
+    const a = index.get(modelA)!;
+    const b = index.get(modelB)!;
+    wins[a] += scoreA;
+    wins[b] += 1 - scoreA;
+    const key = a < b ? `${a}:${b}` : `${b}:${a}`;
+    pairGames.set(key, (pairGames.get(key) ?? 0) + 1);
+  });
+
+  const opponents: Array<Array<[number, number]>> = Array.from({ length: size }, () => []);
+  pairGames.forEach((count, key) => {
+    const [a, b] = key.split(":").map(Number);
+    opponents[a].push([b, count]);
+    opponents[b].push([a, count]);
+  });
+
+  let strengths = new Array<number>(size).fill(1);
+  for (let iteration = 0; iteration < BT_MAX_ITERATIONS; iteration += 1) {
+    const next = new Array<number>(size);
+    for (let i = 0; i < size; i += 1) {
+      // The prior opponent has strength 1 (the geometric mean after normalisation).
+      let denominator = BT_PRIOR_GAMES / (strengths[i] + 1);
+      opponents[i].forEach(([j, count]) => {
+        denominator += count / (strengths[i] + strengths[j]);
+      });
+      next[i] = wins[i] / denominator;
+    }
+
+    const logMean = next.reduce((sum, value) => sum + Math.log(value), 0) / size;
+    const normaliser = Math.exp(logMean);
+    let maxDelta = 0;
+    for (let i = 0; i < size; i += 1) {
+      next[i] /= normaliser;
+      maxDelta = Math.max(maxDelta, Math.abs(next[i] - strengths[i]));
+    }
+    strengths = next;
+    if (maxDelta < BT_TOLERANCE) break;
+  }
+
+  const ratings: Record<string, number> = {};
+  models.forEach((model, i) => {
+    ratings[model] = baseRating + scale * Math.log10(strengths[i]);
+  });
+  return ratings;
+};
+
+const percentile = (sorted: number[], fraction: number): number => {
+  if (sorted.length === 0) return Number.NaN;
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  if (lower === upper) return sorted[lower];
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const resample = (comparisons: PairwiseComparison[], random: () => number) =>
+  comparisons.map(() => comparisons[Math.floor(random() * comparisons.length)]);
+
+/**
+ * Full rating table: Bradley-Terry and Elo point estimates, percentile
+ * bootstrap intervals for both, and raw game/win counts per model.
+ */
+export const computeModelRatings = (
+  comparisons: PairwiseComparison[],
+  options: RatingOptions = {}
+): ModelRating[] => {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+  const models = collectModels(comparisons);
+  if (models.length === 0) return [];
+
+  const btRatings = computeBradleyTerry(comparisons, resolved);
+  const eloRatings = computeElo(comparisons, resolved);
+
+  const random = createRandom(resolved.seed);
+  const btSamples: Record<string, number[]> = {};
+  const eloSamples: Record<string, number[]> = {};
+  models.forEach(model => {
+    btSamples[model] = [];
+    eloSamples[model] = [];
+  });
+
+  for (let round = 0; round < resolved.bootstrapRounds; round += 1) {
+    const sample = resample(comparisons, random);
+    const sampleBt = computeBradleyTerry(sample, resolved);
+    const sampleElo = computeElo(sample, resolved);
+    models.forEach(model => {
+      // Models missing from a resample keep the base rating, which widens their interval.
+      btSamples[model].push(sampleBt[model] ?? resolved.baseRating);
+      eloSamples[model].push(sampleElo[model] ?? resolved.baseRating);
+    });
+  }
+
+  const tail = (1 - resolved.confidence) / 2;
+  const records: Record<string, { wins: number; losses: number; ties: number }> = {};
+  comparisons.forEach(({ modelA, modelB, scoreA }) => {
+    const a = (records[modelA] ??= { wins: 0, losses: 0, ties: 0 });
+    const b = (records[modelB] ??= { wins: 0, losses: 0, ties: 0 });
+    if (scoreA === 1) {
+      a.wins += 1;
+      b.losses += 1;
+    } else if (scoreA === 0) {
+      a.losses += 1;
+      b.wins += 1;
+    } else {
+      a.ties += 1;
+      b.ties += 1;
+    }
+  });
+
+  return models.map(model => {
+    const record = records[model];
+    const games = record.wins + record.losses + record.ties;
+    const btSorted = [...btSamples[model]].sort((x, y) => x - y);
+    const eloSorted = [...eloSamples[model]].sort((x, y) => x - y);
+    return {
+      modelId: model,
+      rating: btRatings[model],
+      ciLower: resolved.bootstrapRounds > 0 ? percentile(btSorted, tail) : btRatings[model],
+      ciUpper: resolved.bootstrapRounds > 0 ? percentile(btSorted, 1 - tail) : btRatings[model],
+      elo: eloRatings[model],
+      eloCiLower: resolved.bootstrapRounds > 0 ? percentile(eloSorted, tail) : eloRatings[model],
+      eloCiUpper: resolved.bootstrapRounds > 0 ? percentile(eloSorted, 1 - tail) : eloRatings[model],
+      games,
+      wins: record.wins,
+      losses: record.losses,
+      ties: record.ties,
+      winRate: games > 0 ? (record.wins + record.ties / 2) / games : 0,
+    };
+  });
+};
@@ -0,0 +1,76 @@
+export interface ReasoningSegment {
+  type: "reasoning" | "answer";
+  content: string;
+}
+
+export interface ReasoningStats {
+  reasoningWords: number;
+  answerWords: number;
+  reasoningTokens: number;
+  answerTokens: number;
+}
+
+export interface ParsedReasoning {
+  segments: ReasoningSegment[];
+  reasoning: string;
+  answer: string;
+  // An unclosed <think> means the model is still reasoning (streaming).
+  isReasoningOpen: boolean;
+  stats: ReasoningStats;
+}
+
+// Rough chars-per-token ratio for Latin-script text; the providers only report
+// a total, so the reasoning/answer split has to be estimated.
+const CHARS_PER_TOKEN = 4;
+
+export const countWords = (text: string): number => text.match(/\S+/g)?.length ?? 0;
+
+export const estimateTokens = (text: string): number => {
+  const trimmed = text.trim();
+  return trimmed ? Math.max(1, Math.round(trimmed.length / CHARS_PER_TOKEN)) : 0;
+};
+
+/** Splits a response into its `<think>` reasoning blocks and the final answer. */
+export const parseReasoning = (text: string): ParsedReasoning => {
+  const segments: ReasoningSegment[] = [];
+  const thinkRegex = /<think>([\s\S]*?)(<\/think>|$)/gi;
+  let lastIndex = 0;
+  let isReasoningOpen = false;
+  let match: RegExpExecArray | null = null;
+
+  while ((match = thinkRegex.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ type: "answer", content: text.slice(lastIndex, match.index) });
+    }
+    segments.push({ type: "reasoning", content: (match[1] ?? "").trim() });
+    isReasoningOpen = !match[2];
+    lastIndex = thinkRegex.lastIndex;
+    if (isReasoningOpen) break;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: "answer", content: text.slice(lastIndex) });
+  }
+
+  const reasoning = segments
+    .filter(segment => segment.type === "reasoning")
+    .map(segment => segment.content)
+    .join("\n\n");
+  const answer = segments
+    .filter(segment => segment.type === "answer")
+    .map(segment => segment.content)
+    .join("")
+    .trim();
+
+  return {
+    segments: segments.filter(segment => segment.content.trim()),
+    reasoning,
+    answer,
+    isReasoningOpen,
+    stats: {
+      reasoningWords: countWords(reasoning),
+      answerWords: countWords(answer),
+      reasoningTokens: estimateTokens(reasoning),
+      answerTokens: estimateTokens(answer),
+    },
+  };
+};
@@ -3,8 +3,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { useChatHistory } from "@/context/ChatHistoryContext";
+import { useAuth } from "@/context/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import AppSidebar from "@/components/AppSidebar";
+import ChatTranscriptActions from "@/components/ChatTranscriptActions";
+import JudgeBatchPanel from "@/components/JudgeBatchPanel";
 import { useSidebar } from "@/context/SidebarContext";
 import { cn } from "@/lib/utils";
 import type { LucideIcon } from "lucide-react";
@@ -22,17 +25,21 @@ import {
   Layers,
   Server,
   Loader2,
+  LogOut,
 } from "lucide-react";
 
 type UploadCategory = "models" | "arena_responses" | "arena_votes" | "leaderboard" | "benchmarks";
 type TableName = "models" | "arena_responses" | "arena_votes" | "leaderboard_results" | "benchmarks";
 
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 const Admin = () => {
   const [uploading, setUploading] = useState(false);
   const [clearingLeaderboard, setClearingLeaderboard] = useState(false);
   const { toast } = useToast();
-  const { clearHistory } = useChatHistory();
+  const { clearHistory, quarantinedChats, clearQuarantine, storageUsage } = useChatHistory();
   const { collapsed: isSidebarCollapsed, toggle: toggleSidebar } = useSidebar();
+  const { user, signOut } = useAuth();
 
   // Helper function to extract model name from path
   const extractModelName = (modelPath: string): string => {
@@ -367,11 +374,24 @@ const Admin = () => {
   };
 
 
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Tente novamente.";
+      toast({
+        title: "Erro ao sair",
+        description: message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleClearHistory = () => {
     clearHistory();
     toast({
       title: "Histórico limpo",
-      description: "Todos os chats locais foram removidos.",
+      description: "Todos os chats foram removidos. Dispositivos conectados à mesma conta serão atualizados na próxima sincronização.",
     });
   };
   const handleClearLeaderboard = async () => {
@@ -419,9 +439,15 @@ const Admin = () => {
                 Gerencie dados da Arena, rankings e benchmarks em um só lugar.
               </p>
             </div>
-            <Badge className="rounded-full border border-primary/40 bg-primary/20 px-4 py-2 text-xs font-semibold uppercase tracking-[0.35em] text-primary">
-              Acesso Restrito
-            </Badge>
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge className="rounded-full border border-primary/40 bg-primary/20 px-4 py-2 text-xs font-semibold uppercase tracking-[0.35em] text-primary">
+                Acesso Restrito
+              </Badge>
+              <span className="text-sm text-muted-foreground">{user?.email}</span>
+              <Button variant="outline" size="sm" onClick={handleSignOut} className="gap-2 rounded-2xl">
+                <LogOut className="h-4 w-4" /> Sair
+              </Button>
+            </div>
           </div>
         </div>
         <div className="flex-1 overflow-y-auto">
@@ -452,11 +478,11 @@ const Admin = () => {
                 <CardHeader className="flex flex-row items-start justify-between gap-4">
                   <div className="space-y-2">
                     <Badge variant="outline" className="w-fit rounded-full border-white/10 bg-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.35em] text-muted-foreground">
-                      Local
+                      Sincronizado
                     </Badge>
                     <CardTitle className="text-xl text-foreground">Histórico de Chats</CardTitle>
                     <p className="text-sm text-muted-foreground">
-                      Remove todos os chats salvos localmente na aplicação. Não afeta dados persistidos no banco.
+                      Exporte chats em JSONL ou Markdown, importe exportações anteriores ou remova todos os chats deste navegador e, para usuários conectados, dos demais dispositivos. Não afeta votos nem respostas salvos no banco.
                     </p>
                   </div>
                   <span className="rounded-2xl border border-white/10 bg-white/10 p-2 text-muted-foreground">
@@ -470,11 +496,30 @@ const Admin = () => {
                     disabled={uploading}
                     className="w-full rounded-2xl"
                   >
-                    <Trash2 className="mr-2 h-4 w-4" /> Limpar histórico local
+                    <Trash2 className="mr-2 h-4 w-4" /> Limpar histórico
                   </Button>
                   <p className="text-xs text-muted-foreground">
                     Utilize esta ação caso esteja configurando um novo ambiente ou precise reiniciar testes.
                   </p>
+                  <ChatTranscriptActions />
+                  <p className={cn("text-xs", storageUsage.isNearQuota ? "text-amber-300" : "text-muted-foreground")}>
+                    {formatMegabytes(storageUsage.chatBytes)} de {formatMegabytes(storageUsage.budgetBytes)} usados (
+                    {storageUsage.backend === "indexedDB" ? "IndexedDB" : "localStorage"})
+                    {storageUsage.quotaBytes
+                      ? ` · navegador: ${formatMegabytes(storageUsage.usageBytes ?? 0)} de ${formatMegabytes(storageUsage.quotaBytes)}`
+                      : ""}
+                  </p>
+                  {quarantinedChats.length > 0 && (
+                    <div className="space-y-2 rounded-2xl border border-amber-400/40 bg-amber-400/10 p-3">
+                      <p className="text-sm text-foreground">
+                        {quarantinedChats.length} chat(s) salvos estavam corrompidos e foram separados em quarentena.
+                      </p>
+                      <p className="text-xs text-muted-foreground">{quarantinedChats[0].reason}</p>
+                      <Button variant="outline" size="sm" onClick={clearQuarantine} className="rounded-2xl">
+                        Descartar quarentena
+                      </Button>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
               <Card className={cardBaseClass}>
@@ -515,6 +560,8 @@ const Admin = () => {
                 </CardContent>
               </Card>
 
+              <JudgeBatchPanel className={cn(cardBaseClass, "xl:col-span-2")} />
+
               {uploadSections.map(section => {
                 const InputIcon = section.icon;
                 const inputId = `${section.key}-upload`;
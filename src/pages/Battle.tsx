@@ -0,0 +1,21 @@
+import { useParams, useSearchParams } from "react-router-dom";
+import BattlePermalinkView from "@/components/BattlePermalinkView";
+import AppSidebar from "@/components/AppSidebar";
+import { useSidebar } from "@/context/SidebarContext";
+import { BLIND_PERMALINK_PARAM } from "@/lib/battlePermalinks";
+
+const BattlePage = () => {
+  const { id = "" } = useParams();
+  const [searchParams] = useSearchParams();
+  const { collapsed: isSidebarCollapsed, toggle: toggleSidebar } = useSidebar();
+  return (
+    <div className="flex min-h-screen flex-col bg-background lg:flex-row">
+      <AppSidebar collapsed={isSidebarCollapsed} onToggle={toggleSidebar} />
+      <main className="flex flex-1 flex-col">
+        <BattlePermalinkView key={id} battleId={id} blind={searchParams.get(BLIND_PERMALINK_PARAM) === "1"} />
+      </main>
+    </div>
+  );
+};
+
+export default BattlePage;
@@ -0,0 +1,88 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { Link, Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Loader2, LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+
+const Login = () => {
+  const { user, signIn } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const redirectTo = (location.state as { from?: string } | null)?.from ?? "/admin";
+
+  if (user && !user.is_anonymous) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    try {
+      await signIn(email.trim(), password);
+      navigate(redirectTo, { replace: true });
+    } catch (error) {
+      console.error("Error signing in:", error);
+      toast({
+        title: "Erro ao entrar",
+        description: error instanceof Error ? error.message : "Verifique o e-mail e a senha.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-background p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-2xl">Entrar</CardTitle>
+          <p className="text-sm text-muted-foreground">Acesso à área administrativa do ChooseLLM.</p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="login-email">E-mail</Label>
+              <Input
+                id="login-email"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={event => setEmail(event.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="login-password">Senha</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={event => setPassword(event.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full gap-2" disabled={submitting}>
+              {submitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+              Entrar
+            </Button>
+          </form>
+          <Link to="/" className="mt-4 block text-center text-sm text-primary underline hover:text-primary/80">
+            Voltar ao Arena
+          </Link>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
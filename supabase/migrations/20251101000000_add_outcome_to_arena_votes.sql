@@ -0,0 +1,17 @@
+-- Store the full vote outcome so ties and "both good/bad" are not folded into a null winner
+ALTER TABLE public.arena_votes ADD COLUMN IF NOT EXISTS outcome text;
+
+-- Backfill existing rows from the winner column
+UPDATE public.arena_votes
+SET outcome = CASE
+  WHEN winner_model_id IS NULL THEN 'tie'
+  WHEN winner_model_id = model_a_id THEN 'model_a'
+  WHEN winner_model_id = model_b_id THEN 'model_b'
+  ELSE NULL
+END
+WHERE outcome IS NULL;
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_outcome_check;
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_outcome_check
+  CHECK (outcome IS NULL OR outcome IN ('model_a', 'model_b', 'tie', 'both_good', 'both_bad'));
@@ -0,0 +1,54 @@
+-- Structured metadata for both sides of a vote, parsed from the alias id
+-- (task__family__technique[__checkpoint]) instead of hard-coded defaults
+ALTER TABLE public.arena_votes
+  ADD COLUMN IF NOT EXISTS model_a_task text,
+  ADD COLUMN IF NOT EXISTS model_a_family text,
+  ADD COLUMN IF NOT EXISTS model_a_technique text,
+  ADD COLUMN IF NOT EXISTS model_a_checkpoint text,
+  ADD COLUMN IF NOT EXISTS model_b_task text,
+  ADD COLUMN IF NOT EXISTS model_b_family text,
+  ADD COLUMN IF NOT EXISTS model_b_technique text,
+  ADD COLUMN IF NOT EXISTS model_b_checkpoint text;
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_model_a_technique_check;
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_model_a_technique_check
+  CHECK (model_a_technique IS NULL OR model_a_technique IN ('grpo', 'lora', 'grpo_on_lora'));
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_model_b_technique_check;
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_model_b_technique_check
+  CHECK (model_b_technique IS NULL OR model_b_technique IN ('grpo', 'lora', 'grpo_on_lora'));
+
+-- Backfill rows whose model ids follow the alias convention
+UPDATE public.arena_votes
+SET
+  model_a_task = split_part(model_a_id, '__', 1),
+  model_a_family = split_part(model_a_id, '__', 2),
+  model_a_technique = CASE
+    WHEN split_part(model_a_id, '__', 3) IN ('grpo', 'lora', 'grpo_on_lora') THEN split_part(model_a_id, '__', 3)
+    ELSE NULL
+  END,
+  model_a_checkpoint = NULLIF(split_part(model_a_id, '__', 4), '')
+WHERE model_a_task IS NULL AND split_part(model_a_id, '__', 3) <> '';
+
+UPDATE public.arena_votes
+SET
+  model_b_task = split_part(model_b_id, '__', 1),
+  model_b_family = split_part(model_b_id, '__', 2),
+  model_b_technique = CASE
+    WHEN split_part(model_b_id, '__', 3) IN ('grpo', 'lora', 'grpo_on_lora') THEN split_part(model_b_id, '__', 3)
+    ELSE NULL
+  END,
+  model_b_checkpoint = NULLIF(split_part(model_b_id, '__', 4), '')
+WHERE model_b_task IS NULL AND split_part(model_b_id, '__', 3) <> '';
+
+-- Replace the placeholder task/technique written by older clients
+UPDATE public.arena_votes
+SET
+  task = CASE WHEN model_a_task = model_b_task THEN model_a_task ELSE NULL END,
+  technique = CASE WHEN model_a_technique = model_b_technique THEN model_a_technique ELSE NULL END
+WHERE task = 'Geração de Texto' AND technique = 'Modelo base' AND model_a_task IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_arena_votes_model_a_task ON public.arena_votes (model_a_task);
+CREATE INDEX IF NOT EXISTS idx_arena_votes_model_b_task ON public.arena_votes (model_b_task);
@@ -0,0 +1,25 @@
+-- Every generation is stored in arena_responses under a battle id; the vote
+-- carries the same id so we can audit exactly what text was judged.
+-- A retried side adds a new row, so the latest row per (battle_id, side) is the one that was voted on.
+ALTER TABLE public.arena_responses
+  ADD COLUMN IF NOT EXISTS battle_id UUID,
+  ADD COLUMN IF NOT EXISTS side TEXT,
+  ADD COLUMN IF NOT EXISTS error TEXT;
+
+ALTER TABLE public.arena_responses DROP CONSTRAINT IF EXISTS arena_responses_side_check;
+ALTER TABLE public.arena_responses
+  ADD CONSTRAINT arena_responses_side_check
+  CHECK (side IS NULL OR side IN ('a', 'b'));
+
+COMMENT ON COLUMN public.arena_responses.response_time IS 'Total generation time in milliseconds';
+
+ALTER TABLE public.arena_votes ADD COLUMN IF NOT EXISTS battle_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_arena_responses_battle_id ON public.arena_responses(battle_id);
+CREATE INDEX IF NOT EXISTS idx_arena_votes_battle_id ON public.arena_votes(battle_id);
+
+DROP POLICY IF EXISTS "Anyone can insert responses" ON public.arena_responses;
+CREATE POLICY "Anyone can insert responses"
+ON public.arena_responses
+FOR INSERT
+WITH CHECK (true);
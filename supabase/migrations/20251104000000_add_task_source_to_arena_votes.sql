@@ -0,0 +1,8 @@
+-- Records how the vote-level task was obtained: picked in the arena's task
+-- selector ('manual') or inferred from the prompt ('classifier')
+ALTER TABLE public.arena_votes ADD COLUMN IF NOT EXISTS task_source text;
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_task_source_check;
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_task_source_check
+  CHECK (task_source IS NULL OR task_source IN ('manual', 'classifier'));
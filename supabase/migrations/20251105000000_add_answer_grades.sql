@@ -0,0 +1,11 @@
+-- Auto-grading against a known gold answer, stored next to the human vote so
+-- preference can be compared with correctness
+ALTER TABLE public.arena_responses
+  ADD COLUMN IF NOT EXISTS gold_answer TEXT,
+  ADD COLUMN IF NOT EXISTS extracted_answer TEXT,
+  ADD COLUMN IF NOT EXISTS is_correct BOOLEAN;
+
+ALTER TABLE public.arena_votes
+  ADD COLUMN IF NOT EXISTS gold_answer TEXT,
+  ADD COLUMN IF NOT EXISTS model_a_correct BOOLEAN,
+  ADD COLUMN IF NOT EXISTS model_b_correct BOOLEAN;
@@ -0,0 +1,13 @@
+-- Separates human votes from synthetic ones written by the LLM-as-judge batch mode
+ALTER TABLE public.arena_votes
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'human',
+  ADD COLUMN IF NOT EXISTS judge_model TEXT;
+
+ALTER TABLE public.arena_votes
+  DROP CONSTRAINT IF EXISTS arena_votes_source_check;
+
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_source_check
+  CHECK (source IN ('human', 'judge'));
+
+CREATE INDEX IF NOT EXISTS idx_arena_votes_source ON public.arena_votes(source);
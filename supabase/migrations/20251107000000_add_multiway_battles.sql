@@ -0,0 +1,28 @@
+-- Battles can show 3-4 models at once. model_a_id/model_b_id keep the first
+-- two participants so pairwise consumers keep working; `participants` holds
+-- every model in the battle's order (model_a first) and `ranking` the voted
+-- order (best first). A best-of-N vote stores only the winner in `ranking`.
+-- Where each model was shown is recorded separately in `display_order`.
+ALTER TABLE public.arena_votes
+  ADD COLUMN IF NOT EXISTS participants TEXT[],
+  ADD COLUMN IF NOT EXISTS ranking TEXT[],
+  ADD COLUMN IF NOT EXISTS vote_type TEXT NOT NULL DEFAULT 'pairwise';
+
+UPDATE public.arena_votes
+SET participants = ARRAY[model_a_id, model_b_id]
+WHERE participants IS NULL;
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_vote_type_check;
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_vote_type_check
+  CHECK (vote_type IN ('pairwise', 'best_of_n', 'ranked'));
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_participants_check;
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_participants_check
+  CHECK (participants IS NULL OR cardinality(participants) BETWEEN 2 AND 4);
+
+ALTER TABLE public.arena_responses DROP CONSTRAINT IF EXISTS arena_responses_side_check;
+ALTER TABLE public.arena_responses
+  ADD CONSTRAINT arena_responses_side_check
+  CHECK (side IS NULL OR side IN ('a', 'b', 'c', 'd'));
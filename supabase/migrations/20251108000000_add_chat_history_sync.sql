@@ -0,0 +1,44 @@
+-- Chat history synced across devices. Each row belongs to the signed-in user
+-- that created it; a cleared chat keeps a tombstone (deleted_at) so devices
+-- that were offline drop it instead of uploading it again.
+CREATE TABLE IF NOT EXISTS public.chats (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  prompt TEXT NOT NULL DEFAULT '',
+  winner TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  deleted_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Turns are stored as the client's JSON payload; the chat's updated_at decides
+-- which copy wins, so turns are always replaced together with their chat.
+CREATE TABLE IF NOT EXISTS public.chat_turns (
+  chat_id TEXT NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  turn JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (chat_id, id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_chats_user_id ON public.chats(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_turns_user_id ON public.chat_turns(user_id);
+
+ALTER TABLE public.chats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_turns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users manage their own chats" ON public.chats;
+CREATE POLICY "Users manage their own chats"
+ON public.chats
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users manage their own chat turns" ON public.chat_turns;
+CREATE POLICY "Users manage their own chat turns"
+ON public.chat_turns
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
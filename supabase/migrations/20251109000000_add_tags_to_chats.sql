@@ -0,0 +1,4 @@
+-- User-defined tags and pinning for synced chats.
+ALTER TABLE public.chats
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS pinned BOOLEAN NOT NULL DEFAULT false;
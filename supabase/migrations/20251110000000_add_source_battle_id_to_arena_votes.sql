@@ -0,0 +1,5 @@
+-- Votes collected through a shared battle link (/battle/:id) get their own
+-- battle_id and point back to the battle whose stored responses they judged.
+ALTER TABLE public.arena_votes ADD COLUMN IF NOT EXISTS source_battle_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_arena_votes_source_battle_id ON public.arena_votes(source_battle_id);
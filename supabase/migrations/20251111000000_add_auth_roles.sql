@@ -0,0 +1,91 @@
+-- Roles are granted by hand (SQL editor or dashboard); nothing in the app writes them.
+DO $$
+BEGIN
+  CREATE TYPE public.app_role AS ENUM ('admin');
+EXCEPTION
+  WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS public.user_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read their own roles" ON public.user_roles;
+CREATE POLICY "Users read their own roles"
+ON public.user_roles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- SECURITY DEFINER so policies can check roles without granting read access to user_roles.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role
+  )
+$$;
+
+-- Catalog tables stay publicly readable; only admins write them.
+DROP POLICY IF EXISTS "Admins manage models" ON public.models;
+CREATE POLICY "Admins manage models"
+ON public.models
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins manage benchmarks" ON public.benchmarks;
+CREATE POLICY "Admins manage benchmarks"
+ON public.benchmarks
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins manage leaderboard_results" ON public.leaderboard_results;
+CREATE POLICY "Admins manage leaderboard_results"
+ON public.leaderboard_results
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- The admin page can also clear the arena tables.
+DROP POLICY IF EXISTS "Admins delete responses" ON public.arena_responses;
+CREATE POLICY "Admins delete responses"
+ON public.arena_responses
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+DROP POLICY IF EXISTS "Admins delete votes" ON public.arena_votes;
+CREATE POLICY "Admins delete votes"
+ON public.arena_votes
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Every vote is attributed to the user who cast it. Voters without an account
+-- get an anonymous Supabase session, so they still count as one user each.
+ALTER TABLE public.arena_votes
+  ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_arena_votes_user_id ON public.arena_votes(user_id, created_at DESC);
+
+DROP POLICY IF EXISTS "Anyone can insert votes" ON public.arena_votes;
+DROP POLICY IF EXISTS "Users insert their own votes" ON public.arena_votes;
+CREATE POLICY "Users insert their own votes"
+ON public.arena_votes
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
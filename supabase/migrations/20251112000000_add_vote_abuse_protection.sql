@@ -0,0 +1,139 @@
+-- Votes flagged as suspicious stay in the table for auditing but are left out
+-- of the leaderboard by default.
+ALTER TABLE public.arena_votes
+  ADD COLUMN IF NOT EXISTS flag TEXT,
+  -- md5 of the client IP reported by the API gateway, only used for rate limiting.
+  ADD COLUMN IF NOT EXISTS client_ip_hash TEXT;
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_flag_check;
+ALTER TABLE public.arena_votes
+  ADD CONSTRAINT arena_votes_flag_check
+  CHECK (flag IS NULL OR flag IN ('duplicate_battle', 'too_fast', 'same_side_streak'));
+
+-- Earlier duplicates of a battle keep the first vote; the rest are flagged and
+-- point to the battle through source_battle_id so the unique key can be added.
+WITH ranked AS (
+  SELECT id, row_number() OVER (PARTITION BY battle_id ORDER BY created_at, id) AS position
+  FROM public.arena_votes
+  WHERE battle_id IS NOT NULL
+)
+UPDATE public.arena_votes AS votes
+SET source_battle_id = COALESCE(votes.source_battle_id, votes.battle_id),
+    battle_id = NULL,
+    flag = 'duplicate_battle'
+FROM ranked
+WHERE votes.id = ranked.id AND ranked.position > 1;
+
+ALTER TABLE public.arena_votes DROP CONSTRAINT IF EXISTS arena_votes_battle_id_key;
+ALTER TABLE public.arena_votes ADD CONSTRAINT arena_votes_battle_id_key UNIQUE (battle_id);
+
+-- A shared battle takes one vote per user. Earlier repeats are flagged so the
+-- unique index below can skip them.
+WITH ranked AS (
+  SELECT id, row_number() OVER (PARTITION BY source_battle_id, user_id ORDER BY created_at, id) AS position
+  FROM public.arena_votes
+  WHERE source_battle_id IS NOT NULL AND user_id IS NOT NULL AND flag IS DISTINCT FROM 'duplicate_battle'
+)
+UPDATE public.arena_votes AS votes
+SET flag = 'duplicate_battle'
+FROM ranked
+WHERE votes.id = ranked.id AND ranked.position > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_arena_votes_source_battle_user
+ON public.arena_votes(source_battle_id, user_id)
+WHERE flag IS DISTINCT FROM 'duplicate_battle';
+
+CREATE INDEX IF NOT EXISTS idx_arena_votes_client_ip_hash ON public.arena_votes(client_ip_hash, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_arena_votes_flag ON public.arena_votes(flag) WHERE flag IS NOT NULL;
+
+-- Rejects judge votes from non-admins, votes without stored answers and bursts
+-- of votes from one user or one IP, and flags bot-like votes: cast less than a
+-- second after the battle's answers were stored, or a tenth consecutive pairwise
+-- vote for the same side. Admins (and so the judge batches they run) are exempt.
+CREATE OR REPLACE FUNCTION public.check_arena_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_limit CONSTANT INTEGER := 10;
+  ip_limit CONSTANT INTEGER := 30;
+  streak_length CONSTANT INTEGER := 10;
+  forwarded_for TEXT;
+  last_response_at TIMESTAMP WITH TIME ZONE;
+  same_side_votes INTEGER;
+  stored_battle_id UUID;
+BEGIN
+  IF public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+  -- `source` comes from the client, so only admins may record judge votes.
+  IF NEW.source = 'judge' THEN
+    RAISE EXCEPTION 'Somente administradores registram votos do juiz.' USING ERRCODE = '42501';
+  END IF;
+
+  -- Both columns are owned by this trigger, whatever the client sent.
+  NEW.flag := NULL;
+  NEW.client_ip_hash := NULL;
+
+  forwarded_for := current_setting('request.headers', true)::json ->> 'x-forwarded-for';
+  IF forwarded_for IS NOT NULL THEN
+    NEW.client_ip_hash := md5(trim(split_part(forwarded_for, ',', 1)));
+  END IF;
+
+  IF NEW.user_id IS NOT NULL AND (
+    SELECT count(*) FROM public.arena_votes
+    WHERE user_id = NEW.user_id AND created_at > now() - INTERVAL '1 minute'
+  ) >= user_limit THEN
+    RAISE EXCEPTION 'Limite de votos atingido. Aguarde um minuto.' USING ERRCODE = 'P0429';
+  END IF;
+
+  IF NEW.client_ip_hash IS NOT NULL AND (
+    SELECT count(*) FROM public.arena_votes
+    WHERE client_ip_hash = NEW.client_ip_hash AND created_at > now() - INTERVAL '1 minute'
+  ) >= ip_limit THEN
+    RAISE EXCEPTION 'Limite de votos atingido. Aguarde um minuto.' USING ERRCODE = 'P0429';
+  END IF;
+
+  -- Every vote needs its own battle id and stored answers to vote on: those of
+  -- the battle itself, or of the shared battle a permalink vote points to.
+  stored_battle_id := COALESCE(NEW.source_battle_id, NEW.battle_id);
+  IF NEW.battle_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.arena_responses WHERE battle_id = stored_battle_id
+  ) THEN
+    RAISE EXCEPTION 'Batalha não encontrada.' USING ERRCODE = 'P0404';
+  END IF;
+
+  IF NEW.source_battle_id IS NULL THEN
+    SELECT max(created_at) INTO last_response_at
+    FROM public.arena_responses
+    WHERE battle_id = NEW.battle_id;
+    IF now() - last_response_at < INTERVAL '1 second' THEN
+      NEW.flag := 'too_fast';
+    END IF;
+  END IF;
+
+  IF NEW.flag IS NULL AND NEW.user_id IS NOT NULL AND NEW.outcome IN ('model_a', 'model_b') THEN
+    SELECT count(*) INTO same_side_votes
+    FROM (
+      SELECT outcome FROM public.arena_votes
+      WHERE user_id = NEW.user_id AND vote_type = 'pairwise'
+      ORDER BY created_at DESC
+      LIMIT streak_length - 1
+    ) AS recent
+    WHERE recent.outcome = NEW.outcome;
+    IF same_side_votes = streak_length - 1 THEN
+      NEW.flag := 'same_side_streak';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_arena_vote ON public.arena_votes;
+CREATE TRIGGER check_arena_vote
+BEFORE INSERT ON public.arena_votes
+FOR EACH ROW
+EXECUTE FUNCTION public.check_arena_vote();
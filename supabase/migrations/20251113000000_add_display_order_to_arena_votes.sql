@@ -0,0 +1,92 @@
+-- Each battle shuffles where its outputs are shown, so model_a is no longer
+-- always the left card. `display_order` holds the model ids left to right.
+ALTER TABLE public.arena_votes ADD COLUMN IF NOT EXISTS display_order TEXT[];
+
+-- Earlier battles were shown in participant order.
+UPDATE public.arena_votes
+SET display_order = participants
+WHERE display_order IS NULL AND participants IS NOT NULL;
+
+-- 'left' or 'right' for a two-model vote with a winner, NULL otherwise.
+CREATE OR REPLACE FUNCTION public.arena_vote_shown_side(_winner_model_id TEXT, _display_order TEXT[], _participants TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN array_length(COALESCE(_display_order, _participants), 1) <> 2 THEN NULL
+    WHEN _winner_model_id = COALESCE(_display_order, _participants)[1] THEN 'left'
+    WHEN _winner_model_id = COALESCE(_display_order, _participants)[2] THEN 'right'
+  END
+$$;
+
+-- The same-side streak now counts the side the voter clicked, not model_a/model_b.
+CREATE OR REPLACE FUNCTION public.check_arena_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_limit CONSTANT INTEGER := 10;
+  ip_limit CONSTANT INTEGER := 30;
+  streak_length CONSTANT INTEGER := 10;
+  forwarded_for TEXT;
+  last_response_at TIMESTAMP WITH TIME ZONE;
+  same_side_votes INTEGER;
+  shown_side TEXT;
+BEGIN
+  IF NEW.source = 'judge' OR public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Both columns are owned by this trigger, whatever the client sent.
+  NEW.flag := NULL;
+  NEW.client_ip_hash := NULL;
+
+  forwarded_for := current_setting('request.headers', true)::json ->> 'x-forwarded-for';
+  IF forwarded_for IS NOT NULL THEN
+    NEW.client_ip_hash := md5(trim(split_part(forwarded_for, ',', 1)));
+  END IF;
+
+  IF NEW.user_id IS NOT NULL AND (
+    SELECT count(*) FROM public.arena_votes
+    WHERE user_id = NEW.user_id AND created_at > now() - INTERVAL '1 minute'
+  ) >= user_limit THEN
+    RAISE EXCEPTION 'Limite de votos atingido. Aguarde um minuto.' USING ERRCODE = 'P0429';
+  END IF;
+
+  IF NEW.client_ip_hash IS NOT NULL AND (
+    SELECT count(*) FROM public.arena_votes
+    WHERE client_ip_hash = NEW.client_ip_hash AND created_at > now() - INTERVAL '1 minute'
+  ) >= ip_limit THEN
+    RAISE EXCEPTION 'Limite de votos atingido. Aguarde um minuto.' USING ERRCODE = 'P0429';
+  END IF;
+
+  IF NEW.battle_id IS NOT NULL THEN
+    SELECT max(created_at) INTO last_response_at
+    FROM public.arena_responses
+    WHERE battle_id = NEW.battle_id;
+    IF last_response_at IS NOT NULL AND now() - last_response_at < INTERVAL '1 second' THEN
+      NEW.flag := 'too_fast';
+    END IF;
+  END IF;
+
+  shown_side := public.arena_vote_shown_side(NEW.winner_model_id, NEW.display_order, NEW.participants);
+  IF NEW.flag IS NULL AND NEW.user_id IS NOT NULL AND NEW.vote_type = 'pairwise' AND shown_side IS NOT NULL THEN
+    SELECT count(*) INTO same_side_votes
+    FROM (
+      SELECT winner_model_id, display_order, participants FROM public.arena_votes
+      WHERE user_id = NEW.user_id AND vote_type = 'pairwise'
+      ORDER BY created_at DESC
+      LIMIT streak_length - 1
+    ) AS recent
+    WHERE public.arena_vote_shown_side(recent.winner_model_id, recent.display_order, recent.participants) = shown_side;
+    IF same_side_votes = streak_length - 1 THEN
+      NEW.flag := 'same_side_streak';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Stored battles are public through /battle/:id permalinks, so responses are
+-- attributed to the session that generated them like votes are, and a battle
+-- only takes rows from the user who started it.
+ALTER TABLE public.arena_responses
+  ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_arena_responses_user_id ON public.arena_responses(user_id);
+
+DROP POLICY IF EXISTS "Anyone can insert responses" ON public.arena_responses;
+DROP POLICY IF EXISTS "Users insert their own responses" ON public.arena_responses;
+CREATE POLICY "Users insert their own responses"
+ON public.arena_responses
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    battle_id IS NULL
+    OR NOT EXISTS (
+      SELECT 1 FROM public.arena_responses AS existing
+      WHERE existing.battle_id = arena_responses.battle_id
+        AND existing.user_id IS DISTINCT FROM auth.uid()
+    )
+  )
+);
@@ -0,0 +1,11 @@
+-- Chat ids come from the client and survive JSONL exports, so two users can
+-- hold a chat with the same id. Chats and their turns are keyed per user.
+ALTER TABLE public.chat_turns DROP CONSTRAINT IF EXISTS chat_turns_chat_id_fkey;
+ALTER TABLE public.chat_turns DROP CONSTRAINT IF EXISTS chat_turns_pkey;
+ALTER TABLE public.chats DROP CONSTRAINT IF EXISTS chats_pkey;
+
+ALTER TABLE public.chats ADD CONSTRAINT chats_pkey PRIMARY KEY (user_id, id);
+ALTER TABLE public.chat_turns ADD CONSTRAINT chat_turns_pkey PRIMARY KEY (user_id, chat_id, id);
+ALTER TABLE public.chat_turns
+  ADD CONSTRAINT chat_turns_chat_id_fkey
+  FOREIGN KEY (user_id, chat_id) REFERENCES public.chats(user_id, id) ON DELETE CASCADE;
@@ -0,0 +1,108 @@
+-- arena_votes is readable by everyone and an md5 of an IPv4 address is easy to
+-- reverse, so the hashes used for the per-IP rate limit move to a table with no
+-- read policies. Only the check_arena_vote trigger (SECURITY DEFINER) uses it,
+-- and rows older than the one-minute window are pruned as votes come in.
+CREATE TABLE IF NOT EXISTS public.arena_vote_ip_hits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ip_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_arena_vote_ip_hits_created_at ON public.arena_vote_ip_hits(created_at);
+
+ALTER TABLE public.arena_vote_ip_hits ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.arena_vote_ip_hits FROM anon, authenticated;
+
+DROP INDEX IF EXISTS public.idx_arena_votes_client_ip_hash;
+ALTER TABLE public.arena_votes DROP COLUMN IF EXISTS client_ip_hash;
+
+-- Rejects judge votes from non-admins, votes without stored answers and bursts
+-- of votes from one user or one IP, and flags bot-like votes: cast less than a
+-- second after the battle's answers were stored, or a tenth consecutive pairwise
+-- vote for the same shown side. Admins (and so the judge batches they run) are
+-- exempt.
+CREATE OR REPLACE FUNCTION public.check_arena_vote()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_limit CONSTANT INTEGER := 10;
+  ip_limit CONSTANT INTEGER := 30;
+  streak_length CONSTANT INTEGER := 10;
+  forwarded_for TEXT;
+  client_ip_hash TEXT;
+  last_response_at TIMESTAMP WITH TIME ZONE;
+  same_side_votes INTEGER;
+  stored_battle_id UUID;
+  shown_side TEXT;
+BEGIN
+  IF public.has_role(auth.uid(), 'admin') THEN
+    RETURN NEW;
+  END IF;
+  -- `source` comes from the client, so only admins may record judge votes.
+  IF NEW.source = 'judge' THEN
+    RAISE EXCEPTION 'Somente administradores registram votos do juiz.' USING ERRCODE = '42501';
+  END IF;
+
+  -- Owned by this trigger, whatever the client sent.
+  NEW.flag := NULL;
+
+  IF NEW.user_id IS NOT NULL AND (
+    SELECT count(*) FROM public.arena_votes
+    WHERE user_id = NEW.user_id AND created_at > now() - INTERVAL '1 minute'
+  ) >= user_limit THEN
+    RAISE EXCEPTION 'Limite de votos atingido. Aguarde um minuto.' USING ERRCODE = 'P0429';
+  END IF;
+
+  forwarded_for := current_setting('request.headers', true)::json ->> 'x-forwarded-for';
+  IF forwarded_for IS NOT NULL THEN
+    client_ip_hash := md5(trim(split_part(forwarded_for, ',', 1)));
+    DELETE FROM public.arena_vote_ip_hits WHERE created_at <= now() - INTERVAL '1 minute';
+    IF (SELECT count(*) FROM public.arena_vote_ip_hits WHERE ip_hash = client_ip_hash) >= ip_limit THEN
+      RAISE EXCEPTION 'Limite de votos atingido. Aguarde um minuto.' USING ERRCODE = 'P0429';
+    END IF;
+  END IF;
+
+  -- Every vote needs its own battle id and stored answers to vote on: those of
+  -- the battle itself, or of the shared battle a permalink vote points to.
+  stored_battle_id := COALESCE(NEW.source_battle_id, NEW.battle_id);
+  IF NEW.battle_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.arena_responses WHERE battle_id = stored_battle_id
+  ) THEN
+    RAISE EXCEPTION 'Batalha não encontrada.' USING ERRCODE = 'P0404';
+  END IF;
+
+  -- Rolled back with the vote if the insert fails later on.
+  IF client_ip_hash IS NOT NULL THEN
+    INSERT INTO public.arena_vote_ip_hits (ip_hash) VALUES (client_ip_hash);
+  END IF;
+
+  IF NEW.source_battle_id IS NULL THEN
+    SELECT max(created_at) INTO last_response_at
+    FROM public.arena_responses
+    WHERE battle_id = NEW.battle_id;
+    IF now() - last_response_at < INTERVAL '1 second' THEN
+      NEW.flag := 'too_fast';
+    END IF;
+  END IF;
+
+  shown_side := public.arena_vote_shown_side(NEW.winner_model_id, NEW.display_order, NEW.participants);
+  IF NEW.flag IS NULL AND NEW.user_id IS NOT NULL AND NEW.vote_type = 'pairwise' AND shown_side IS NOT NULL THEN
+    SELECT count(*) INTO same_side_votes
+    FROM (
+      SELECT winner_model_id, display_order, participants FROM public.arena_votes
+      WHERE user_id = NEW.user_id AND vote_type = 'pairwise'
+      ORDER BY created_at DESC
+      LIMIT streak_length - 1
+    ) AS recent
+    WHERE public.arena_vote_shown_side(recent.winner_model_id, recent.display_order, recent.participants) = shown_side;
+    IF same_side_votes = streak_length - 1 THEN
+      NEW.flag := 'same_side_streak';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;